@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+// Key-value store for frontend data; the first writer of a key owns it
+contract UniversalAdapter {
+    mapping(string => bytes) private _data;
+    mapping(string => address) public keyOwner;
+
+    // previousValueHash is zero when the key held no value before this write
+    event DataStored(address indexed sender, string key, bytes value, bytes32 previousValueHash);
+    event KeyOwnershipTransferred(string key, address indexed previousOwner, address indexed newOwner);
+
+    error NotKeyOwner(string key, address keyOwner);
+    error InvalidKeyOwner();
+
+    function setData(string calldata key, bytes calldata value) external {
+        address currentOwner = keyOwner[key];
+        if (currentOwner == address(0)) {
+            keyOwner[key] = msg.sender;
+            emit KeyOwnershipTransferred(key, address(0), msg.sender);
+        } else if (currentOwner != msg.sender) {
+            revert NotKeyOwner(key, currentOwner);
+        }
+
+        bytes storage previous = _data[key];
+        bytes32 previousValueHash = previous.length == 0 ? bytes32(0) : keccak256(previous);
+        _data[key] = value;
+        emit DataStored(msg.sender, key, value, previousValueHash);
+    }
+
+    function transferKeyOwnership(string calldata key, address newOwner) external {
+        address currentOwner = keyOwner[key];
+        if (currentOwner != msg.sender) revert NotKeyOwner(key, currentOwner);
+        if (newOwner == address(0)) revert InvalidKeyOwner();
+        keyOwner[key] = newOwner;
+        emit KeyOwnershipTransferred(key, msg.sender, newOwner);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return _data[key];
+    }
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+}
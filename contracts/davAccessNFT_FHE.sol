@@ -1,9 +1,11 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ERC721 } from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import { ERC721Enumerable } from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
 
-contract DavAccessNFT_FHE is SepoliaConfig {
+contract DavAccessNFT_FHE is ERC721Enumerable, SepoliaConfig {
     using FHE for euint32;
     using FHE for ebool;
 
@@ -21,22 +23,82 @@ contract DavAccessNFT_FHE is SepoliaConfig {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        bool accessGranted;
+        string vehicleClass; // Empty for the default ACCESS_THRESHOLD
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
-    // Encrypted user preferences
-    // For simplicity, we'll assume a fixed set of preferences per NFT
-    // In a real scenario, this might be more complex or involve multiple NFTs
-    euint32 public encryptedDrivingStyle;
-    euint32 public encryptedRoutePreference;
-    euint32 public encryptedComfortLevel;
+    // Per-token access rights and the rider's encrypted preferences
+    struct AccessToken {
+        string vehicleId;
+        bool permanent;
+        bool revoked;
+        uint64 mintedAt;
+    }
+
+    struct TokenPreferences {
+        euint32 drivingStyle;
+        euint32 routePreference;
+        euint32 comfortLevel;
+        euint32 musicVolume;
+    }
+
+    uint256 public lastTokenId;
+    mapping(uint256 => AccessToken) public accessTokens;
+    mapping(uint256 => TokenPreferences) internal _tokenPreferences;
+
+    // Encrypted provider submissions, summed per batch so every batch starts from empty aggregates
+    struct BatchAggregates {
+        euint32 drivingStyle;
+        euint32 routePreference;
+        euint32 comfortLevel;
+        // Access control list for who can use the DAV
+        // This would be checked by the DAV system, possibly after decryption
+        // Let's say access is granted if an encrypted score is >= threshold
+        euint32 accessScore;
+    }
+    mapping(uint256 => BatchAggregates) internal _batchAggregates;
+
+    // Interpretable view of one preference across a batch; mean is only set once the batch is finalised
+    struct PreferenceStats {
+        euint32 mean;
+        euint32 min;
+        euint32 max;
+    }
+
+    struct BatchStatistics {
+        bool finalized;
+        PreferenceStats drivingStyle;
+        PreferenceStats routePreference;
+        PreferenceStats comfortLevel;
+    }
+    mapping(uint256 => BatchStatistics) internal _batchStatistics;
+
+    // Latest access decision published for a batch
+    struct BatchResult {
+        bool decided;
+        bool accessGranted;
+        uint256 requestId;
+        string vehicleClass;
+    }
+    mapping(uint256 => BatchResult) public batchResults;
+
+    // Read model for the batch history
+    struct BatchSummary {
+        uint256 batchId;
+        uint256 submissionCount;
+        bool closed;
+        bool finalized;
+        BatchAggregates aggregates;
+        BatchResult result;
+    }
+
+    uint32 public constant ACCESS_THRESHOLD = 50; // Example threshold
 
-    // Access control list for who can use the DAV
-    // This would be checked by the DAV system, possibly after decryption
-    // For this contract, we manage the encrypted list.
-    // Let's say access is granted if an encrypted score is >= threshold
-    euint32 public encryptedAccessScore;
-    uint256 public constant ACCESS_THRESHOLD = 50; // Example threshold
+    // Owner-managed thresholds per vehicle class (e.g. "economy", "premium", "accessibility-van").
+    // Kept encrypted so riders cannot tune their score to a known cut-off.
+    mapping(string => euint32) internal _classThresholds;
+    string[] internal _vehicleClasses;
 
     // Events
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
@@ -50,7 +112,11 @@ contract DavAccessNFT_FHE is SepoliaConfig {
     event PreferencesSubmitted(address indexed submitter, uint256 batchId, euint32 drivingStyle, euint32 routePreference, euint32 comfortLevel);
     event AccessScoreUpdated(address indexed updater, uint256 batchId, euint32 accessScore);
     event DecryptionRequested(uint256 indexed requestId, uint256 batchId, bytes32 stateHash);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 drivingStyle, uint256 routePreference, uint256 comfortLevel, uint256 accessScore, bool accessGranted);
+    event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, bool accessGranted);
+    event ClassThresholdSet(string vehicleClass);
+    event BatchFinalized(uint256 indexed batchId);
+    event AccessMinted(uint256 indexed tokenId, address indexed holder, string vehicleId, bool permanent);
+    event AccessRevoked(uint256 indexed tokenId, address indexed revokedBy);
 
     // Custom Errors
     error NotOwner();
@@ -63,6 +129,11 @@ contract DavAccessNFT_FHE is SepoliaConfig {
     error StateMismatch();
     error InvalidProof();
     error NotInitialized();
+    error NotTokenHolder();
+    error TokenRevoked();
+    error UnknownVehicleClass();
+    error BatchAlreadyFinalized();
+    error HandleNotAllowed();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -93,7 +164,7 @@ contract DavAccessNFT_FHE is SepoliaConfig {
         _;
     }
 
-    constructor() {
+    constructor() ERC721("DAV Access FHE", "DAVA") {
         owner = msg.sender;
         isProvider[msg.sender] = true;
         emit ProviderAdded(msg.sender);
@@ -147,62 +218,189 @@ contract DavAccessNFT_FHE is SepoliaConfig {
         emit BatchClosed(currentBatchId);
     }
 
+    // Turns the encrypted sums of a closed batch into encrypted means
+    function finalizeBatch(uint256 batchId) external onlyOwner whenNotPaused {
+        if (!isBatchClosed(batchId)) revert InvalidBatch();
+        BatchStatistics storage stats = _batchStatistics[batchId];
+        if (stats.finalized) revert BatchAlreadyFinalized();
+
+        uint256 count = batchSubmissionCount[batchId];
+        if (count == 0) revert NotInitialized();
+
+        BatchAggregates storage agg = _batchAggregates[batchId];
+        stats.drivingStyle.mean = _mean(agg.drivingStyle, count);
+        stats.routePreference.mean = _mean(agg.routePreference, count);
+        stats.comfortLevel.mean = _mean(agg.comfortLevel, count);
+        stats.finalized = true;
+
+        emit BatchFinalized(batchId);
+    }
+
+    function setClassThreshold(
+        string calldata vehicleClass,
+        externalEuint32 threshold,
+        bytes calldata inputProof
+    ) external onlyOwner whenNotPaused {
+        if (bytes(vehicleClass).length == 0) revert UnknownVehicleClass();
+
+        if (!_classThresholds[vehicleClass].isInitialized()) {
+            _vehicleClasses.push(vehicleClass);
+        }
+        euint32 value = FHE.fromExternal(threshold, inputProof);
+        _classThresholds[vehicleClass] = value;
+        FHE.allowThis(value);
+        FHE.allow(value, owner);
+
+        emit ClassThresholdSet(vehicleClass);
+    }
+
+    function getClassThreshold(string calldata vehicleClass) external view returns (euint32) {
+        return _classThresholds[vehicleClass];
+    }
+
+    function getVehicleClasses() external view returns (string[] memory) {
+        return _vehicleClasses;
+    }
+
+    function mintAccess(
+        string calldata vehicleId,
+        bool permanent,
+        externalEuint32 drivingStyle,
+        externalEuint32 routePreference,
+        externalEuint32 comfortLevel,
+        externalEuint32 musicVolume,
+        bytes calldata inputProof
+    ) external whenNotPaused returns (uint256 tokenId) {
+        tokenId = ++lastTokenId;
+
+        TokenPreferences storage prefs = _tokenPreferences[tokenId];
+        prefs.drivingStyle = FHE.fromExternal(drivingStyle, inputProof);
+        prefs.routePreference = FHE.fromExternal(routePreference, inputProof);
+        prefs.comfortLevel = FHE.fromExternal(comfortLevel, inputProof);
+        prefs.musicVolume = FHE.fromExternal(musicVolume, inputProof);
+
+        accessTokens[tokenId] = AccessToken({
+            vehicleId: vehicleId,
+            permanent: permanent,
+            revoked: false,
+            mintedAt: uint64(block.timestamp)
+        });
+
+        // ACL grants for the holder happen in _update
+        _safeMint(msg.sender, tokenId);
+
+        emit AccessMinted(tokenId, msg.sender, vehicleId, permanent);
+    }
+
+    function revokeAccess(uint256 tokenId) external {
+        address holder = _requireOwned(tokenId);
+        if (msg.sender != holder && msg.sender != owner) revert NotTokenHolder();
+        if (accessTokens[tokenId].revoked) revert TokenRevoked();
+
+        accessTokens[tokenId].revoked = true;
+        emit AccessRevoked(tokenId, msg.sender);
+    }
+
+    // Record registry view: every access token is one DAV record. ERC721Enumerable already keeps the
+    // per-holder index and only the minter writes a token's preferences, so a separate registry
+    // contract would only duplicate this state and have to be kept in sync with transfers.
+    function recordsOf(address holder) external view returns (uint256[] memory tokenIds) {
+        uint256 count = balanceOf(holder);
+        tokenIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            tokenIds[i] = tokenOfOwnerByIndex(holder, i);
+        }
+    }
+
+    function recordCount() external view returns (uint256) {
+        return totalSupply();
+    }
+
+    function getTokenPreferences(
+        uint256 tokenId
+    ) external view returns (euint32 drivingStyle, euint32 routePreference, euint32 comfortLevel, euint32 musicVolume) {
+        _requireOwned(tokenId);
+        TokenPreferences storage prefs = _tokenPreferences[tokenId];
+        return (prefs.drivingStyle, prefs.routePreference, prefs.comfortLevel, prefs.musicVolume);
+    }
+
     function submitPreferences(
         euint32 _drivingStyle,
         euint32 _routePreference,
         euint32 _comfortLevel
     ) external onlyProvider whenNotPaused checkSubmissionCooldown {
-        if (!batchOpen) revert BatchNotOpen();
-
-        _initIfNeeded(encryptedDrivingStyle);
-        _initIfNeeded(encryptedRoutePreference);
-        _initIfNeeded(encryptedComfortLevel);
-
-        encryptedDrivingStyle = encryptedDrivingStyle.add(_drivingStyle);
-        encryptedRoutePreference = encryptedRoutePreference.add(_routePreference);
-        encryptedComfortLevel = encryptedComfortLevel.add(_comfortLevel);
-
-        batchSubmissionCount[currentBatchId]++;
-        lastSubmissionTime[msg.sender] = block.timestamp;
+        _requireSenderAllowed(_drivingStyle);
+        _requireSenderAllowed(_routePreference);
+        _requireSenderAllowed(_comfortLevel);
+        _submitPreferences(_drivingStyle, _routePreference, _comfortLevel);
+    }
 
-        emit PreferencesSubmitted(msg.sender, currentBatchId, _drivingStyle, _routePreference, _comfortLevel);
+    // Provider-encrypted inputs; the proof binds the handles to this contract and msg.sender
+    function submitPreferences(
+        externalEuint32 _drivingStyle,
+        externalEuint32 _routePreference,
+        externalEuint32 _comfortLevel,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused checkSubmissionCooldown {
+        _submitPreferences(
+            FHE.fromExternal(_drivingStyle, inputProof),
+            FHE.fromExternal(_routePreference, inputProof),
+            FHE.fromExternal(_comfortLevel, inputProof)
+        );
     }
 
     function updateAccessScore(euint32 _accessScore) external onlyProvider whenNotPaused checkSubmissionCooldown {
-        if (!batchOpen) revert BatchNotOpen();
-
-        _initIfNeeded(encryptedAccessScore);
-        encryptedAccessScore = encryptedAccessScore.add(_accessScore);
-        lastSubmissionTime[msg.sender] = block.timestamp;
-        emit AccessScoreUpdated(msg.sender, currentBatchId, _accessScore);
+        _requireSenderAllowed(_accessScore);
+        _updateAccessScore(_accessScore);
     }
 
-    function requestAccessCheck() external whenNotPaused checkDecryptionCooldown {
-        if (!batchOpen) revert BatchNotOpen(); // Or allow only on closed batches, depending on logic
+    function updateAccessScore(
+        externalEuint32 _accessScore,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused checkSubmissionCooldown {
+        _updateAccessScore(FHE.fromExternal(_accessScore, inputProof));
+    }
 
-        _requireInitialized(encryptedDrivingStyle);
-        _requireInitialized(encryptedRoutePreference);
-        _requireInitialized(encryptedComfortLevel);
-        _requireInitialized(encryptedAccessScore);
+    function requestAccessCheck(uint256 batchId) external whenNotPaused checkDecryptionCooldown {
+        _requestAccessCheck(batchId, "");
+    }
 
-        // 1. Prepare Ciphertexts
-        bytes32[] memory cts = new bytes32[](4);
-        cts[0] = encryptedDrivingStyle.toBytes32();
-        cts[1] = encryptedRoutePreference.toBytes32();
-        cts[2] = encryptedComfortLevel.toBytes32();
-        cts[3] = encryptedAccessScore.toBytes32();
+    function requestAccessCheck(
+        uint256 batchId,
+        string calldata vehicleClass
+    ) external whenNotPaused checkDecryptionCooldown {
+        if (!_classThresholds[vehicleClass].isInitialized()) revert UnknownVehicleClass();
+        _requestAccessCheck(batchId, vehicleClass);
+    }
 
-        // 2. Compute State Hash
-        bytes32 stateHash = _hashCiphertexts(cts);
+    // A batch is final once it has been closed or a later batch has been opened
+    function isBatchClosed(uint256 batchId) public view returns (bool) {
+        if (batchId == 0 || batchId > currentBatchId) return false;
+        return batchId < currentBatchId || !batchOpen;
+    }
 
-        // 3. Request Decryption
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+    function getBatchAggregates(
+        uint256 batchId
+    ) external view returns (euint32 drivingStyle, euint32 routePreference, euint32 comfortLevel, euint32 accessScore) {
+        BatchAggregates storage agg = _batchAggregates[batchId];
+        return (agg.drivingStyle, agg.routePreference, agg.comfortLevel, agg.accessScore);
+    }
 
-        // 4. Store Context
-        decryptionContexts[requestId] = DecryptionContext({ batchId: currentBatchId, stateHash: stateHash, processed: false });
-        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+    function getBatchStatistics(uint256 batchId) external view returns (BatchStatistics memory) {
+        return _batchStatistics[batchId];
+    }
 
-        emit DecryptionRequested(requestId, currentBatchId, stateHash);
+    function getBatch(uint256 batchId) external view returns (BatchSummary memory) {
+        if (batchId == 0 || batchId > currentBatchId) revert InvalidBatch();
+        return
+            BatchSummary({
+                batchId: batchId,
+                submissionCount: batchSubmissionCount[batchId],
+                closed: isBatchClosed(batchId),
+                finalized: _batchStatistics[batchId].finalized,
+                aggregates: _batchAggregates[batchId],
+                result: batchResults[batchId]
+            });
     }
 
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
@@ -211,61 +409,202 @@ contract DavAccessNFT_FHE is SepoliaConfig {
             revert ReplayAttempt();
         }
 
+        DecryptionContext storage context = decryptionContexts[requestId];
+
         // 5b. State Verification
-        // Rebuild cts in the exact same order as in requestAccessCheck
-        bytes32[] memory currentCts = new bytes32[](4);
-        currentCts[0] = encryptedDrivingStyle.toBytes32();
-        currentCts[1] = encryptedRoutePreference.toBytes32();
-        currentCts[2] = encryptedComfortLevel.toBytes32();
-        currentCts[3] = encryptedAccessScore.toBytes32();
-
-        bytes32 currentStateHash = _hashCiphertexts(currentCts);
-        if (currentStateHash != decryptionContexts[requestId].stateHash) {
+        // Rebuild the inputs in the exact same order as in requestAccessCheck
+        bytes32 currentStateHash = _hashCiphertexts(_accessCheckInputs(context.batchId, context.vehicleClass));
+        if (currentStateHash != context.stateHash) {
             revert StateMismatch();
         }
-        // Security Comment: State hash verification ensures that the ciphertexts being decrypted
-        // are the same ones that were present when the decryption was requested, preventing
+        // Security Comment: State hash verification ensures that the access score and threshold the
+        // decision was computed from have not changed since the decryption was requested, preventing
         // certain front-running or reordering attacks.
 
         // 5c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
+        // A single 32-byte word for the requested ebool; checkSignatures reverts on a bad KMS signature
+        if (cleartexts.length != 32) {
             revert InvalidProof();
         }
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
         // 5d. Decode & Finalize
-        // Cleartexts are expected in the same order: drivingStyle, routePreference, comfortLevel, accessScore
-        uint256 drivingStyleCleartext = abi.decode(cleartexts[0:32], (uint256));
-        uint256 routePreferenceCleartext = abi.decode(cleartexts[32:64], (uint256));
-        uint256 comfortLevelCleartext = abi.decode(cleartexts[64:96], (uint256));
-        uint256 accessScoreCleartext = abi.decode(cleartexts[96:128], (uint256));
-
-        bool accessGranted = accessScoreCleartext >= ACCESS_THRESHOLD;
-
-        decryptionContexts[requestId].processed = true;
-
-        emit DecryptionCompleted(
-            requestId,
-            decryptionContexts[requestId].batchId,
-            drivingStyleCleartext,
-            routePreferenceCleartext,
-            comfortLevelCleartext,
-            accessScoreCleartext,
-            accessGranted
-        );
+        bool accessGranted = abi.decode(cleartexts, (bool));
+
+        context.processed = true;
+        context.accessGranted = accessGranted;
+        batchResults[context.batchId] = BatchResult({
+            decided: true,
+            accessGranted: accessGranted,
+            requestId: requestId,
+            vehicleClass: context.vehicleClass
+        });
+
+        // Preferences and the score itself stay encrypted; only the decision is published
+        emit DecryptionCompleted(requestId, context.batchId, accessGranted);
         // The DAV system would then use this 'accessGranted' information.
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _requestAccessCheck(uint256 batchId, string memory vehicleClass) internal {
+        // Only closed batches are checked, so the aggregates cannot move under a pending request
+        if (!isBatchClosed(batchId)) revert InvalidBatch();
+
+        euint32 accessScore = _batchAggregates[batchId].accessScore;
+        _requireInitialized(accessScore);
+
+        // 1. Compare homomorphically; only the resulting ebool is ever decrypted
+        ebool accessDecision = bytes(vehicleClass).length == 0
+            ? accessScore.ge(ACCESS_THRESHOLD)
+            : accessScore.ge(_classThresholds[vehicleClass]);
+        FHE.allowThis(accessDecision);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = accessDecision.toBytes32();
+
+        // 2. Compute State Hash over the score and threshold the decision was derived from
+        bytes32 stateHash = _hashCiphertexts(_accessCheckInputs(batchId, vehicleClass));
+
+        // 3. Request Decryption
+        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+
+        // 4. Store Context
+        decryptionContexts[requestId] = DecryptionContext({
+            batchId: batchId,
+            stateHash: stateHash,
+            processed: false,
+            accessGranted: false,
+            vehicleClass: vehicleClass
+        });
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+
+        emit DecryptionRequested(requestId, batchId, stateHash);
+    }
+
+    function _submitPreferences(euint32 _drivingStyle, euint32 _routePreference, euint32 _comfortLevel) internal {
+        if (!batchOpen) revert BatchNotOpen();
+
+        BatchAggregates storage agg = _batchAggregates[currentBatchId];
+        agg.drivingStyle = _initIfNeeded(agg.drivingStyle);
+        agg.routePreference = _initIfNeeded(agg.routePreference);
+        agg.comfortLevel = _initIfNeeded(agg.comfortLevel);
+
+        agg.drivingStyle = _saturatingAdd(agg.drivingStyle, _drivingStyle);
+        agg.routePreference = _saturatingAdd(agg.routePreference, _routePreference);
+        agg.comfortLevel = _saturatingAdd(agg.comfortLevel, _comfortLevel);
+
+        _grantAggregateAccess(agg.drivingStyle);
+        _grantAggregateAccess(agg.routePreference);
+        _grantAggregateAccess(agg.comfortLevel);
+
+        BatchStatistics storage stats = _batchStatistics[currentBatchId];
+        bool firstSubmission = batchSubmissionCount[currentBatchId] == 0;
+        _trackRange(stats.drivingStyle, _drivingStyle, firstSubmission);
+        _trackRange(stats.routePreference, _routePreference, firstSubmission);
+        _trackRange(stats.comfortLevel, _comfortLevel, firstSubmission);
+        _grantSubmitterAccess(_drivingStyle);
+        _grantSubmitterAccess(_routePreference);
+        _grantSubmitterAccess(_comfortLevel);
+
+        batchSubmissionCount[currentBatchId]++;
+        lastSubmissionTime[msg.sender] = block.timestamp;
+
+        emit PreferencesSubmitted(msg.sender, currentBatchId, _drivingStyle, _routePreference, _comfortLevel);
+    }
+
+    function _updateAccessScore(euint32 _accessScore) internal {
+        if (!batchOpen) revert BatchNotOpen();
+
+        BatchAggregates storage agg = _batchAggregates[currentBatchId];
+        agg.accessScore = _initIfNeeded(agg.accessScore);
+        agg.accessScore = _saturatingAdd(agg.accessScore, _accessScore);
+
+        _grantAggregateAccess(agg.accessScore);
+        _grantSubmitterAccess(_accessScore);
+
+        lastSubmissionTime[msg.sender] = block.timestamp;
+        emit AccessScoreUpdated(msg.sender, currentBatchId, _accessScore);
+    }
+
+    // Aggregates stay usable by this contract and readable by the owner
+    function _grantAggregateAccess(euint32 v) internal {
+        FHE.allowThis(v);
+        FHE.allow(v, owner);
+    }
+
+    // Raw handles must already be the caller's; submitting one grants the caller access to it below,
+    // which would otherwise let a provider read any handle the contract holds
+    function _requireSenderAllowed(euint32 v) internal view {
+        if (!FHE.isSenderAllowed(v)) revert HandleNotAllowed();
+    }
+
+    // A provider can always user-decrypt what it submitted
+    function _grantSubmitterAccess(euint32 v) internal {
+        FHE.allowThis(v);
+        FHE.allow(v, msg.sender);
+    }
+
+    // The holder of a token can always user-decrypt its preferences.
+    // ACL permissions are persistent, so a previous holder keeps access to the handles it already held.
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address from = super._update(to, tokenId, auth);
+        if (to != address(0)) {
+            _grantTokenAccess(tokenId, to);
+        }
+        return from;
+    }
+
+    function _grantTokenAccess(uint256 tokenId, address holder) internal {
+        TokenPreferences storage prefs = _tokenPreferences[tokenId];
+        euint32[4] memory values = [prefs.drivingStyle, prefs.routePreference, prefs.comfortLevel, prefs.musicVolume];
+        for (uint256 i = 0; i < values.length; i++) {
+            FHE.allowThis(values[i]);
+            FHE.allow(values[i], holder);
+        }
+    }
+
+    // Sums stick at type(uint32).max instead of wrapping, so an overflowing batch cannot look small
+    function _saturatingAdd(euint32 sum, euint32 value) internal returns (euint32) {
+        euint32 result = sum.add(value);
+        return FHE.select(result.lt(sum), FHE.asEuint32(type(uint32).max), result);
+    }
+
+    function _trackRange(PreferenceStats storage stats, euint32 value, bool first) internal {
+        stats.min = first ? value : stats.min.min(value);
+        stats.max = first ? value : stats.max.max(value);
+        _grantAggregateAccess(stats.min);
+        _grantAggregateAccess(stats.max);
+    }
+
+    // The divisor is the public submission count, so only the sum needs to stay encrypted
+    function _mean(euint32 sum, uint256 count) internal returns (euint32 mean) {
+        mean = sum.div(uint32(count));
+        _grantAggregateAccess(mean);
+    }
+
+    // The default check compares against a plaintext constant, which leaves the threshold slot zero
+    function _accessCheckInputs(
+        uint256 batchId,
+        string memory vehicleClass
+    ) internal view returns (bytes32[] memory inputs) {
+        inputs = new bytes32[](2);
+        inputs[0] = _batchAggregates[batchId].accessScore.toBytes32();
+        inputs[1] = _classThresholds[vehicleClass].toBytes32();
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 v) internal {
+    // Value types cannot be passed by storage reference, so callers assign the result back to their slot
+    function _initIfNeeded(euint32 v) internal returns (euint32) {
         if (!v.isInitialized()) {
             v = FHE.asEuint32(0);
+            FHE.allowThis(v);
         }
+        return v;
     }
 
-    function _requireInitialized(euint32 v) internal view {
+    function _requireInitialized(euint32 v) internal pure {
         if (!v.isInitialized()) {
             revert NotInitialized();
         }
@@ -1,112 +1,81 @@
 // deploy/deploy.ts
 import fs from "fs";
 import path from "path";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet } from "ethers";
-
-async function main() {
-  // --- 1. 定义文件路径 ---
-  // 私钥文件路径 (与此脚本同目录)
-  const privateKeysFile = path.join(__dirname, "sy.txt");
-  // CSV 输出文件路径 (与此脚本同目录)
-  const outputFile = path.join(__dirname, "bushu.csv");
-
-  // --- 2. 读取私钥 ---
-  if (!fs.existsSync(privateKeysFile)) {
-    console.error(`错误：未在 ${privateKeysFile} 找到私钥文件`);
-    process.exit(1);
-  }
-
-  const privateKeys = fs
-    .readFileSync(privateKeysFile, "utf8")
-    .split("\n")
-    .map((k) => k.trim())
-    .filter((k) => k.length > 0); // 过滤掉空行
-
-  if (privateKeys.length === 0) {
-    console.error(`在 ${privateKeysFile} 中未找到任何私钥`);
-    process.exit(1);
-  }
-
-  console.log(`找到 ${privateKeys.length} 个私钥，准备开始批量部署...`);
-
-  // --- 3. 准备 CSV 文件 ---
-  const csvHeader = "DeployerAddress,ContractAddress\n";
-  // 写入表头 (覆盖旧文件)
-  fs.writeFileSync(outputFile, csvHeader);
-  console.log(`部署结果将保存到: ${outputFile}`);
-
-  // --- 4. 批量部署 ---
-  // 从 hardhat.config.ts 获取当前 --network 标志指定的 provider
-  const provider = hardhatEthers.provider;
-  const UniversalAdapterFactoryBase =
-    await hardhatEthers.getContractFactory("UniversalAdapter");
-
-  for (const privateKey of privateKeys) {
-    let wallet: Wallet | undefined;
-    try {
-      // 使用当前 provider 连接钱包
-      wallet = new Wallet(privateKey, provider);
-      console.log(`\n[${privateKeys.indexOf(privateKey) + 1}/${privateKeys.length}] 正在使用地址部署: ${wallet.address}`);
-
-      // 将 factory 连接到当前的钱包
-      const factory = UniversalAdapterFactoryBase.connect(wallet);
-
-      // 部署合约
-      const contract = await factory.deploy();
-      await contract.waitForDeployment();
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { assertNoPlaintextKeys } from "../tasks/accounts";
+import { FRONTEND_SRC, frontendAbiPath, writeManifest } from "../tasks/deployments";
+
+// Everything the frontend talks to; DavAccessNFT_FHE is the registry, UniversalAdapter the key/value store beside it
+const CONTRACTS = ["DavAccessNFT_FHE", "UniversalAdapter"] as const;
+type ContractName = (typeof CONTRACTS)[number];
+
+interface FrontendChain {
+  name: string;
+  rpcUrls: string[];
+  deployer: string;
+  contracts: Record<ContractName, string>;
+  [setting: string]: unknown;
+}
 
-      // 兼容 ethers v5 (address) 和 v6 (target)
-      const deployedAddress = (contract as any).target || (contract as any).address;
-      console.log(`  -> 成功! 合约地址: ${deployedAddress}`);
+// Updates this chain's entry in frontend/web/src/config.json; RPC URLs and other settings already there are kept
+function writeFrontendConfig(hre: HardhatRuntimeEnvironment, chainId: string, deployer: string, addresses: Record<ContractName, string>) {
+  const configPath = path.join(FRONTEND_SRC, "config.json");
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  // A live network's URL may carry an API key, so new live chains start without RPC URLs
+  const url = "url" in hre.network.config ? hre.network.config.url : undefined;
+  const chain: FrontendChain = config.chains[chainId] ?? {
+    name: hre.network.name,
+    rpcUrls: url && !hre.network.live ? [url] : [],
+    deployer: "",
+    contracts: {}
+  };
+  config.chains[chainId] = { ...chain, deployer, contracts: { ...chain.contracts, ...addresses } };
+
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2) + "\n");
+  console.log(`Updated chain ${chainId} in ${path.relative(process.cwd(), configPath)}`);
+}
 
-      // 将结果追加到 CSV
-      const csvLine = `${wallet.address},${deployedAddress}\n`;
-      fs.appendFileSync(outputFile, csvLine);
+// Same artifact layout as before, but with the ABI of what is deployed rather than what was last compiled
+async function writeFrontendAbi(hre: HardhatRuntimeEnvironment, name: ContractName) {
+  const artifact = await hre.artifacts.readArtifact(name);
+  const { abi } = await hre.deployments.get(name);
+  const abiPath = frontendAbiPath(name);
+  fs.mkdirSync(path.dirname(abiPath), { recursive: true });
+  fs.writeFileSync(abiPath, JSON.stringify({ ...artifact, abi }, null, 2) + "\n");
+}
 
-    } catch (error) {
-      const deployerAddress = wallet ? wallet.address : "InvalidKey";
-      // 格式化错误信息以安全存入 CSV
-      const errorMessage = (error as Error).message.replace(/\n/g, " ").replace(/,/g, ";");
-      
-      console.error(`  -> 失败! 地址: ${deployerAddress}. 错误:`, (error as Error).message);
-      
-      // 在 CSV 中记录错误
-      const csvErrorLine = `${deployerAddress},"Error: ${errorMessage}"\n`;
-      fs.appendFileSync(outputFile, csvErrorLine);
-    }
+// Deploys each contract once per network from the named deployer account. Re-running is a no-op
+// unless the bytecode changed; deployments/<network>/ records what is live, and its .manifest.json
+// what `hardhat deployments:check` compares the chain and the frontend against.
+const func: DeployFunction = async (hre: HardhatRuntimeEnvironment) => {
+  assertNoPlaintextKeys();
+  const { deployments, getNamedAccounts, getChainId, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const chainId = await getChainId();
+
+  const addresses = {} as Record<ContractName, string>;
+  for (const name of CONTRACTS) {
+    const result = await deployments.deploy(name, {
+      from: deployer,
+      args: [],
+      log: true,
+      waitConfirmations: network.live ? 2 : 1
+    });
+    addresses[name] = result.address;
   }
 
-  console.log("\n--- 批量部署完成 ---");
+  // The in-process hardhat chain is gone when the command exits, so nothing it deployed is worth recording
+  if (network.name === "hardhat") return;
 
-  // --- 5. 复制 ABI 到前端 (此操作与部署次数无关，执行一次即可) ---
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("未找到前端 src 目录，跳过 ABI 复制:", frontendConfigDir);
-  } else {
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("已复制 ABI 到 frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "自动复制 ABI 失败。请手动复制 artifacts/.../UniversalAdapter.json 到 frontend/web/src/abi/",
-        e
-      );
-    }
+  writeFrontendConfig(hre, chainId, deployer, addresses);
+  for (const name of CONTRACTS) {
+    await writeFrontendAbi(hre, name);
   }
-}
+  await writeManifest(hre, CONTRACTS);
+};
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
\ No newline at end of file
+export default func;
+func.id = "deploy_dav_access";
+func.tags = ["DavAccessNFT_FHE", "UniversalAdapter"];
\ No newline at end of file
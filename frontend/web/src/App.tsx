@@ -1,73 +1,45 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  estimateMintAccess, finalizeBatch, getAccessNftReadOnly, getAccessToken, getContractOwner, listBatches, listVehicleClasses,
+  mintAccess, requestAccessCheck, revokeAccess, setClassThreshold, waitForAccessDecision, AGGREGATE_KEYS, VEHICLE_CLASSES
+} from "./accessNft";
+import type { AccessDecision, AggregateKey, BatchInfo, GasEstimate } from "./accessNft";
+import { decryptBatchReport, formatPreferenceReport, getBatchStatistics, PREFERENCE_STAT_KEYS } from "./batchReport";
+import type { BatchReport } from "./batchReport";
+import { clearRpcOverride, getRpcOverride, getRpcUrls, saveRpcOverride } from "./appConfig";
+import { getChainConfig, getDavAccessNFTAddress, resolveChainId, setActiveChainId } from "./contract";
+import type { ContractEvent } from "./events";
+import { fetchBatchTimeline } from "./indexer";
+import type { TimelineEntry } from "./indexer";
+import { listRecordsOf } from "./records";
+import type { DAVRecord, RecordLoadProgress } from "./records";
+import { encryptPreferences, shortHandle, PREFERENCE_KEYS } from "./fhevm";
+import type { EncryptedPreferences } from "./fhevm";
+import { useContractEvents } from "./hooks/useContractEvents";
+import { useUserDecryption } from "./hooks/useUserDecryption";
+import NotificationTray from "./components/NotificationTray";
+import type { Notice, NoticeStatus } from "./components/NotificationTray";
+import { describeContractError } from "./contractErrors";
+import { getEndpointStatuses, getQuorumStatus, probeEndpoints } from "./rpcPool";
+import type { EndpointStatus, QuorumStatus } from "./rpcPool";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface DAVRecord {
-  id: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
-  vehicleId: string;
-  accessType: "temporary" | "permanent";
-  status: "active" | "expired" | "revoked";
-  preferences: {
-    temperature: number;
-    musicVolume: number;
-    drivingStyle: number;
-    routePriority: number;
-  };
-}
-
-// FHE Encryption/Decryption functions for numerical data
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}-ZAMA`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-') && encryptedData.endsWith('-ZAMA')) {
-    const cleanData = encryptedData.substring(4, encryptedData.length - 5);
-    return parseFloat(atob(cleanData));
-  }
-  return parseFloat(encryptedData);
-};
-
-// FHE computation on encrypted data
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'optimizeRoute':
-      result = value * 0.95; // 5% optimization
-      break;
-    case 'adjustComfort':
-      result = value * 1.1; // 10% comfort increase
-      break;
-    case 'ecoMode':
-      result = value * 0.9; // 10% energy saving
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
-
-const generatePublicKey = () => `0x${Array(64).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+import { useAccount } from 'wagmi';
 
 const App: React.FC = () => {
-  const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
+  const chainId = resolveChainId(walletChainId);
+  const { decrypt, isDecrypting, session: decryptionSession } = useUserDecryption();
   const [loading, setLoading] = useState(true);
   const [records, setRecords] = useState<DAVRecord[]>([]);
+  const [recordProgress, setRecordProgress] = useState<RecordLoadProgress | null>(null);
+  const [failedRecordIds, setFailedRecordIds] = useState<bigint[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
+  const [notices, setNotices] = useState<(Notice & { shownAt: number })[]>([]);
   const [newRecordData, setNewRecordData] = useState({
     vehicleId: "",
     accessType: "temporary" as "temporary" | "permanent",
@@ -78,19 +50,38 @@ const App: React.FC = () => {
       routePriority: 60
     }
   });
+  const [encryptedInput, setEncryptedInput] = useState<EncryptedPreferences | null>(null);
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [mintPreflight, setMintPreflight] = useState<MintPreflight | null>(null);
   const [showTutorial, setShowTutorial] = useState(false);
+  const [showRpcSettings, setShowRpcSettings] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<DAVRecord | null>(null);
   const [decryptedPreferences, setDecryptedPreferences] = useState<any>(null);
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
   const [currentStep, setCurrentStep] = useState<number>(1);
+  const [accessDecision, setAccessDecision] = useState<AccessDecision | null>(null);
+  const [isCheckingAccess, setIsCheckingAccess] = useState(false);
+  const [contractOwner, setContractOwner] = useState<string | null>(null);
+  const [vehicleClasses, setVehicleClasses] = useState<string[]>([]);
+  const [checkVehicleClass, setCheckVehicleClass] = useState("");
+  const [thresholdForm, setThresholdForm] = useState({ vehicleClass: VEHICLE_CLASSES[0], threshold: 50 });
+  const [isSettingThreshold, setIsSettingThreshold] = useState(false);
+  const [batches, setBatches] = useState<BatchInfo[]>([]);
+  const [isLoadingBatches, setIsLoadingBatches] = useState(false);
+  const [batchTimelines, setBatchTimelines] = useState<Record<string, TimelineEntry[]>>({});
+  const [decryptedBatches, setDecryptedBatches] = useState<Record<string, Partial<Record<AggregateKey, number>>>>({});
+  const [batchReports, setBatchReports] = useState<Record<string, BatchReport>>({});
+  const [decryptingBatchId, setDecryptingBatchId] = useState<string | null>(null);
   const [systemStatus, setSystemStatus] = useState<{ vehicles: number, activeSessions: number, fheOperations: number }>({ vehicles: 0, activeSessions: 0, fheOperations: 0 });
 
+  // Declared first so every load below already reads from the wallet's chain
+  useEffect(() => {
+    setActiveChainId(chainId);
+  }, [chainId]);
+
   // Initialize system
   useEffect(() => {
     loadRecords().finally(() => setLoading(false));
     const initSystem = async () => {
-      setPublicKey(generatePublicKey());
       // Simulate system status updates
       setSystemStatus({
         vehicles: Math.floor(Math.random() * 50) + 10,
@@ -107,208 +98,304 @@ const App: React.FC = () => {
       }));
     }, 5000);
     return () => clearInterval(interval);
-  }, [records.length]);
+  }, [records.length, address, chainId]);
+
+  // Ciphertexts are bound to the values and the wallet they were produced for
+  useEffect(() => {
+    setEncryptedInput(null);
+  }, [newRecordData.preferences, address]);
+
+  // Decrypted values never outlive the signature that authorised them
+  useEffect(() => {
+    if (!decryptionSession) {
+      setDecryptedPreferences(null);
+      setDecryptedBatches({});
+      setBatchReports({});
+    }
+  }, [decryptionSession]);
+
+  useEffect(() => {
+    loadFleetConfig();
+    loadBatches();
+  }, [address, chainId]);
+
+  const loadBatches = async () => {
+    setIsLoadingBatches(true);
+    try {
+      const list = await listBatches();
+      setBatches(list);
+
+      // History is only known to the indexer; without it the list shows current state alone
+      const timelines: Record<string, TimelineEntry[]> = {};
+      await Promise.all(list.map(async batch => {
+        const timeline = await fetchBatchTimeline(batch.batchId);
+        if (timeline) timelines[batch.batchId.toString()] = timeline;
+      }));
+      setBatchTimelines(timelines);
+    } catch (e) { console.error("Error loading batches:", e); }
+    finally { setIsLoadingBatches(false); }
+  };
 
-  // Load DAV access records from contract
+  // Contract owner and the vehicle classes that have an encrypted threshold
+  const loadFleetConfig = async () => {
+    try {
+      const [owner, classes] = await Promise.all([getContractOwner(), listVehicleClasses()]);
+      setContractOwner(owner);
+      setVehicleClasses(classes);
+    } catch (e) { console.error("Error loading fleet config:", e); }
+  };
+
+  // A reload replaces the open modal's record so it shows the latest on-chain state
+  useEffect(() => {
+    setSelectedRecord(current => current ? records.find(record => record.id === current.id) ?? current : current);
+  }, [records]);
+
+  // Load the connected wallet's DAV access tokens
   const loadRecords = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
+      if (!address) { setRecords([]); setFailedRecordIds([]); return; }
       
-      // Load record keys
-      const keysBytes = await contract.getData("dav_record_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing record keys:", e); }
-      }
-      
-      const list: DAVRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`dav_record_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              list.push({
-                id: key,
-                encryptedData: recordData.data,
-                timestamp: recordData.timestamp,
-                owner: recordData.owner,
-                vehicleId: recordData.vehicleId,
-                accessType: recordData.accessType,
-                status: recordData.status || "active",
-                preferences: recordData.preferences
-              });
-            } catch (e) { console.error(`Error parsing record data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading record ${key}:`, e); }
-      }
+      const { records: list, failedIds } = await listRecordsOf(address, setRecordProgress);
       list.sort((a, b) => b.timestamp - a.timestamp);
       setRecords(list);
+      setFailedRecordIds(failedIds);
     } catch (e) { console.error("Error loading records:", e); } 
-    finally { setIsRefreshing(false); setLoading(false); }
+    finally { setIsRefreshing(false); setLoading(false); setRecordProgress(null); }
+  };
+
+  // Simulate the mint once the confirmation step is reached, so a doomed mint is never offered for signing
+  useEffect(() => {
+    if (!showCreateModal || currentStep !== 4 || !encryptedInput) { setMintPreflight(null); return; }
+    let cancelled = false;
+    setMintPreflight({ status: "checking" });
+    estimateMintAccess(newRecordData.vehicleId, newRecordData.accessType, encryptedInput)
+      .then(estimate => { if (!cancelled) setMintPreflight({ status: "ok", estimate }); })
+      .catch(e => { if (!cancelled) setMintPreflight({ status: "blocked", reason: e.message }); });
+    return () => { cancelled = true; };
+  }, [showCreateModal, currentStep, encryptedInput, newRecordData.vehicleId, newRecordData.accessType]);
+
+  // Encrypt preferences with the relayer SDK, bound to DavAccessNFT_FHE and the connected wallet
+  const encryptRecordPreferences = async (): Promise<EncryptedPreferences | null> => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return null; }
+    if (encryptedInput && encryptedInput.userAddress === address) return encryptedInput;
+    setIsEncrypting(true);
+    try {
+      const encrypted = await encryptPreferences(address, newRecordData.preferences);
+      setEncryptedInput(encrypted);
+      return encrypted;
+    } finally { setIsEncrypting(false); }
+  };
+
+  // One notice per action id: later steps replace it in place, and finished ones fade after a while
+  const dismissNotice = (id: string, shownAt?: number) => {
+    setNotices(prev => prev.filter(notice => notice.id !== id || (shownAt !== undefined && notice.shownAt !== shownAt)));
+  };
+
+  const notify = (id: string, status: NoticeStatus, message: string) => {
+    const shownAt = Date.now();
+    setNotices(prev => [...prev.filter(notice => notice.id !== id), { id, status, message, shownAt }]);
+    if (status !== "pending") setTimeout(() => dismissNotice(id, shownAt), status === "error" ? 6000 : 3000);
   };
 
   // Create new DAV access record with FHE encryption
   const submitRecord = async () => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
     setCreating(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting DAV preferences with Zama FHE..." });
+    notify("create", "pending", "Encrypting DAV preferences with Zama FHE...");
     
     try {
-      // Encrypt each preference with FHE
-      const encryptedPreferences = {
-        temperature: FHEEncryptNumber(newRecordData.preferences.temperature),
-        musicVolume: FHEEncryptNumber(newRecordData.preferences.musicVolume),
-        drivingStyle: FHEEncryptNumber(newRecordData.preferences.drivingStyle),
-        routePriority: FHEEncryptNumber(newRecordData.preferences.routePriority)
-      };
-
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const recordId = `dav-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const recordData = {
-        data: JSON.stringify(encryptedPreferences),
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: address,
-        vehicleId: newRecordData.vehicleId,
-        accessType: newRecordData.accessType,
-        status: "active",
-        preferences: encryptedPreferences
-      };
-
-      await contract.setData(`dav_record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
-      
-      // Update record keys
-      const keysBytes = await contract.getData("dav_record_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(recordId);
-      await contract.setData("dav_record_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const encrypted = await encryptRecordPreferences();
+      if (!encrypted) throw new Error("Encryption failed");
+
+      notify("create", "pending", "Minting DAV access NFT...");
+      // DavAccessNFT_FHE imports the handles with FHE.fromExternal and grants the holder ACL access
+      await mintAccess(newRecordData.vehicleId, newRecordData.accessType, encrypted);
       
-      setTransactionStatus({ visible: true, status: "success", message: "DAV access NFT created with FHE encryption!" });
+      notify("create", "success", "DAV access NFT created with FHE encryption!");
       await loadRecords();
       
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowCreateModal(false);
-        setNewRecordData({
-          vehicleId: "",
-          accessType: "temporary",
-          preferences: { temperature: 22, musicVolume: 50, drivingStyle: 70, routePriority: 60 }
-        });
-        setCurrentStep(1);
-      }, 2000);
+      setShowCreateModal(false);
+      setNewRecordData({
+        vehicleId: "",
+        accessType: "temporary",
+        preferences: { temperature: 22, musicVolume: 50, drivingStyle: 70, routePriority: 60 }
+      });
+      setEncryptedInput(null);
+      setCurrentStep(1);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
-      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      notify("create", "error", "Submission failed: " + await describeContractError(e));
     } finally { setCreating(false); }
   };
 
-  // Decrypt preferences with wallet signature
+  // Decrypt preferences through the relayer with an EIP-712 user-decrypt signature
   const decryptWithSignature = async (encryptedData: string): Promise<any> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
-    setIsDecrypting(true);
     try {
-      const message = `DAV Access Decryption\nPublic Key: ${publicKey}\nTimestamp: ${Date.now()}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const { contractAddress, handles } = JSON.parse(encryptedData);
+      if (!handles || !ethers.isAddress(contractAddress)) throw new Error("Record has no FHE ciphertext handles");
       
-      const encryptedPrefs = JSON.parse(encryptedData);
+      const keys = PREFERENCE_KEYS.filter(key => typeof handles[key] === "string");
+      const values = await decrypt(keys.map(key => handles[key]), contractAddress);
       const decrypted = {} as any;
-      for (const [key, value] of Object.entries(encryptedPrefs)) {
-        if (typeof value === 'string') {
-          decrypted[key] = FHEDecryptNumber(value);
-        }
+      for (const key of keys) {
+        decrypted[key] = Number(values[handles[key]]);
       }
       return decrypted;
-    } catch (e) { console.error("Decryption failed:", e); return null; } 
-    finally { setIsDecrypting(false); }
+    } catch (e) { console.error("Decryption failed:", e); return null; }
   };
 
-  // Verify DAV access record
+  // Verify DAV access token: still held by this wallet, not revoked, preferences stored on-chain
   const verifyRecord = async (recordId: string) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted preferences with FHE..." });
+    notify("verify", "pending", "Verifying encrypted preferences...");
     
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const recordBytes = await contract.getData(`dav_record_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
+      const contract = await getAccessNftReadOnly();
+      const token = await getAccessToken(contract, BigInt(recordId));
       
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const encryptedPrefs = JSON.parse(recordData.data);
-      
-      // Apply FHE computation to optimize preferences
-      const optimizedPrefs = {} as any;
-      for (const [key, value] of Object.entries(encryptedPrefs)) {
-        if (typeof value === 'string') {
-          optimizedPrefs[key] = FHECompute(value, 'optimizeRoute');
-        }
+      if (!isOwner(token.holder)) throw new Error("Token is held by another wallet");
+      if (token.status === "revoked") throw new Error("Access has been revoked");
+      if (!PREFERENCE_KEYS.every(key => BigInt(token.handles[key]) !== 0n)) {
+        throw new Error("Token does not hold FHE ciphertext handles");
       }
       
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedRecord = { 
-        ...recordData, 
-        status: "active",
-        preferences: optimizedPrefs,
-        data: JSON.stringify(optimizedPrefs)
-      };
-      
-      await contractWithSigner.setData(`dav_record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      setTransactionStatus({ visible: true, status: "success", message: "FHE optimization completed successfully!" });
+      notify("verify", "success", "Encrypted preferences verified!");
       await loadRecords();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Verification failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      notify("verify", "error", "Verification failed: " + (e.message || "Unknown error"));
     }
   };
 
   // Revoke DAV access
   const revokeRecord = async (recordId: string) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Revoking DAV access..." });
+    notify("revoke", "pending", "Revoking DAV access...");
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const recordBytes = await contract.getData(`dav_record_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const updatedRecord = { ...recordData, status: "revoked" };
-      
-      await contract.setData(`dav_record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      setTransactionStatus({ visible: true, status: "success", message: "DAV access revoked successfully!" });
+      await revokeAccess(BigInt(recordId));
+      notify("revoke", "success", "DAV access revoked successfully!");
       await loadRecords();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Revocation failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      notify("revoke", "error", "Revocation failed: " + await describeContractError(e));
+    }
+  };
+
+  // Ask the contract for an encrypted threshold check of a closed batch; the oracle publishes only granted/denied
+  const checkAccess = async (batchId: bigint) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsCheckingAccess(true);
+    notify("access-check", "pending", "Requesting encrypted access check...");
+
+    try {
+      const { requestId, blockNumber } = await requestAccessCheck(batchId, checkVehicleClass || undefined);
+      notify("access-check", "pending", "Waiting for the decryption oracle...");
+      const decision = await waitForAccessDecision(requestId, blockNumber);
+      setAccessDecision(decision);
+      await loadBatches();
+      notify("access-check", "success", decision.accessGranted ? "Access granted" : "Access denied");
+    } catch (e: any) {
+      notify("access-check", "error", "Access check failed: " + await describeContractError(e));
+    } finally {
+      setIsCheckingAccess(false);
+    }
+  };
+
+  // Owner only: batch sums and statistics are readable through user decryption by the contract owner
+  const decryptBatch = async (batch: BatchInfo) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    const keys = AGGREGATE_KEYS.filter(key => BigInt(batch.handles[key]) !== 0n);
+    if (keys.length === 0) return;
+
+    setDecryptingBatchId(batch.batchId.toString());
+    try {
+      const contractAddress = getDavAccessNFTAddress();
+      const values = await decrypt(keys.map(key => batch.handles[key]), contractAddress);
+      const decrypted: Partial<Record<AggregateKey, number>> = {};
+      for (const key of keys) {
+        decrypted[key] = Number(values[batch.handles[key]]);
+      }
+      const stats = await getBatchStatistics(await getAccessNftReadOnly(), batch.batchId);
+      const report = await decryptBatchReport(stats, contractAddress, decrypt);
+      setDecryptedBatches(prev => ({ ...prev, [batch.batchId.toString()]: decrypted }));
+      setBatchReports(prev => ({ ...prev, [batch.batchId.toString()]: report }));
+    } catch (e) {
+      console.error("Batch decryption failed:", e);
+    } finally {
+      setDecryptingBatchId(null);
+    }
+  };
+
+  // Owner only: divides the encrypted sums of a closed batch by its submission count
+  const finalizeBatchStatistics = async (batchId: bigint) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    notify("finalize", "pending", "Computing encrypted batch averages...");
+
+    try {
+      await finalizeBatch(batchId);
+      notify("finalize", "success", "Batch statistics finalized!");
+      await loadBatches();
+    } catch (e: any) {
+      notify("finalize", "error", "Finalization failed: " + await describeContractError(e));
+    }
+  };
+
+  // Owner only: the threshold is encrypted in the browser and never leaves it in cleartext
+  const saveClassThreshold = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!thresholdForm.vehicleClass.trim()) { alert("Please enter a vehicle class"); return; }
+    setIsSettingThreshold(true);
+    notify("threshold", "pending", "Encrypting threshold with Zama FHE...");
+
+    try {
+      await setClassThreshold(thresholdForm.vehicleClass.trim(), thresholdForm.threshold);
+      notify("threshold", "success", "Encrypted threshold saved!");
+      await loadFleetConfig();
+    } catch (e: any) {
+      notify("threshold", "error", "Saving threshold failed: " + await describeContractError(e));
+    } finally {
+      setIsSettingThreshold(false);
     }
   };
 
   const isOwner = (recordAddress: string) => address?.toLowerCase() === recordAddress.toLowerCase();
 
+  // Bursts of events (several logs in one block) trigger a single reload
+  const reloadTimers = useRef<Record<"records" | "batches", ReturnType<typeof setTimeout> | null>>({ records: null, batches: null });
+  const scheduleReload = (target: "records" | "batches") => {
+    if (reloadTimers.current[target]) clearTimeout(reloadTimers.current[target]!);
+    reloadTimers.current[target] = setTimeout(() => {
+      reloadTimers.current[target] = null;
+      if (target === "records") loadRecords();
+      else loadBatches();
+    }, 500);
+  };
+
+  // Keeps records, batches and the open detail modal in step with transactions from any wallet
+  const handleContractEvent = (event: ContractEvent) => {
+    switch (event.name) {
+      case "AccessMinted":
+        if (isOwner(event.holder)) scheduleReload("records");
+        break;
+      case "Transfer":
+        if (isOwner(event.from) || isOwner(event.to)) scheduleReload("records");
+        if (selectedRecord?.id === event.tokenId.toString()) setSelectedRecord({ ...selectedRecord, owner: event.to });
+        break;
+      case "AccessRevoked":
+        if (records.some(record => record.id === event.tokenId.toString())) scheduleReload("records");
+        if (selectedRecord?.id === event.tokenId.toString()) setSelectedRecord({ ...selectedRecord, status: "revoked" });
+        break;
+      case "DataStored":
+        // UniversalAdapter keys are not shown in the app
+        break;
+      default:
+        scheduleReload("batches");
+    }
+  };
+  const { isLive } = useContractEvents(chainId, handleContractEvent);
+
+  const latestClosedBatch = batches.find(batch => batch.closed);
+
   // Tutorial steps for DAV system
   const tutorialSteps = [
     { title: "Connect Wallet", description: "Connect your Web3 wallet to access the DAV network", icon: "🔗" },
@@ -350,6 +437,9 @@ const App: React.FC = () => {
     <div className="loading-screen hud-theme">
       <div className="hud-spinner"></div>
       <p>Initializing DAV Network Connection...</p>
+      {recordProgress && recordProgress.total > 0 && (
+        <div className="hud-status">Loading records: {recordProgress.loaded} / {recordProgress.total}</div>
+      )}
       <div className="hud-status">FHE Encryption: ACTIVE</div>
     </div>
   );
@@ -386,6 +476,7 @@ const App: React.FC = () => {
           <button className="hud-button" onClick={() => setShowTutorial(!showTutorial)}>
             {showTutorial ? "Hide Guide" : "Show Guide"}
           </button>
+          <button className="hud-button" onClick={() => setShowRpcSettings(true)}>RPC</button>
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
@@ -452,16 +543,80 @@ const App: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <div className="dashboard-card hud-panel">
+            <h3>Access Decision</h3>
+            <div className="stats-grid">
+              <div className="stat-item hud-stat">
+                <div className="stat-value">{accessDecision ? (accessDecision.accessGranted ? "GRANTED" : "DENIED") : "—"}</div>
+                <div className="stat-label">{accessDecision ? `Batch #${accessDecision.batchId.toString()}` : "No check yet"}</div>
+              </div>
+            </div>
+            <select value={checkVehicleClass} onChange={(e) => setCheckVehicleClass(e.target.value)} className="hud-select">
+              <option value="">Default threshold</option>
+              {vehicleClasses.map(vehicleClass => (
+                <option key={vehicleClass} value={vehicleClass}>{vehicleClass}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => latestClosedBatch && checkAccess(latestClosedBatch.batchId)}
+              className="hud-button"
+              disabled={isCheckingAccess || !latestClosedBatch}
+            >
+              {isCheckingAccess ? "CHECKING..." : latestClosedBatch ? `CHECK BATCH #${latestClosedBatch.batchId.toString()}` : "NO CLOSED BATCH"}
+            </button>
+            <div className="hud-notice">The score is compared under FHE; only the decision is decrypted</div>
+          </div>
+
+          {contractOwner && isOwner(contractOwner) && (
+            <div className="dashboard-card hud-panel">
+              <h3>Fleet Thresholds</h3>
+              <div className="form-group">
+                <label>Vehicle Class</label>
+                <input
+                  type="text"
+                  list="vehicle-classes"
+                  value={thresholdForm.vehicleClass}
+                  onChange={(e) => setThresholdForm({ ...thresholdForm, vehicleClass: e.target.value })}
+                  className="hud-input"
+                />
+                <datalist id="vehicle-classes">
+                  {VEHICLE_CLASSES.map(vehicleClass => <option key={vehicleClass} value={vehicleClass} />)}
+                </datalist>
+              </div>
+              <div className="form-group">
+                <label>Access Threshold</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={thresholdForm.threshold}
+                  onChange={(e) => setThresholdForm({ ...thresholdForm, threshold: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="hud-input"
+                />
+              </div>
+              <button onClick={saveClassThreshold} className="hud-button primary" disabled={isSettingThreshold}>
+                {isSettingThreshold ? "ENCRYPTING..." : "SET ENCRYPTED THRESHOLD"}
+              </button>
+              <div className="hud-notice">
+                {vehicleClasses.length > 0 ? `Configured: ${vehicleClasses.join(", ")}` : "No class thresholds configured"}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Records List */}
         <div className="records-section">
           <div className="section-header hud-header">
-            <h2>DAV Access NFTs</h2>
+            <h2>DAV Access NFTs {isLive && <span className="live-indicator">LIVE</span>}</h2>
             <button onClick={loadRecords} className="hud-button" disabled={isRefreshing}>
               {isRefreshing ? "SYNCING..." : "REFRESH"}
             </button>
           </div>
+          {failedRecordIds.length > 0 && (
+            <div className="records-warning">
+              {failedRecordIds.length} record(s) could not be loaded: #{failedRecordIds.join(", #")}
+            </div>
+          )}
           
           <div className="records-list hud-panel">
             {records.length === 0 ? (
@@ -491,7 +646,7 @@ const App: React.FC = () => {
                       {isOwner(record.owner) && record.status === "active" && (
                         <>
                           <button className="hud-button small" onClick={(e) => { e.stopPropagation(); verifyRecord(record.id); }}>
-                            OPTIMIZE
+                            VERIFY
                           </button>
                           <button className="hud-button small danger" onClick={(e) => { e.stopPropagation(); revokeRecord(record.id); }}>
                             REVOKE
@@ -505,6 +660,98 @@ const App: React.FC = () => {
             )}
           </div>
         </div>
+
+        {/* Batch History */}
+        <div className="records-section">
+          <div className="section-header hud-header">
+            <h2>Batch History</h2>
+            <button onClick={loadBatches} className="hud-button" disabled={isLoadingBatches}>
+              {isLoadingBatches ? "SYNCING..." : "REFRESH"}
+            </button>
+          </div>
+
+          <div className="records-list hud-panel">
+            {batches.length === 0 ? (
+              <div className="no-records">
+                <p>No provider batches yet</p>
+              </div>
+            ) : (
+              batches.map(batch => {
+                const batchKey = batch.batchId.toString();
+                const decrypted = decryptedBatches[batchKey];
+                const report = batchReports[batchKey];
+                const timeline = batchTimelines[batchKey];
+                return (
+                  <div key={batchKey} className="record-item hud-item">
+                    <div className="record-header">
+                      <div className="vehicle-id">Batch #{batchKey}</div>
+                      <div className={`access-badge ${batch.closed ? "permanent" : "temporary"}`}>{batch.closed ? "closed" : "open"}</div>
+                    </div>
+                    <div className="record-preferences">
+                      {AGGREGATE_KEYS.map(key => (
+                        <div key={key} className="record-meta">
+                          <span>{key}</span>
+                          <span>
+                            {decrypted?.[key] !== undefined
+                              ? decrypted[key]
+                              : BigInt(batch.handles[key]) === 0n ? "—" : `🔒 ${shortHandle(batch.handles[key])}`}
+                          </span>
+                        </div>
+                      ))}
+                      {report && PREFERENCE_STAT_KEYS.map(key => (
+                        <div key={`${key}-report`} className="record-meta">
+                          <span>{key} stats</span>
+                          <span>{formatPreferenceReport(report[key])}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {timeline && timeline.length > 0 && (
+                      <ol className="batch-timeline">
+                        {timeline.map(entry => (
+                          <li key={`${entry.blockNumber}-${entry.logIndex}`}>
+                            <span>{entry.name}</span>
+                            <span>block {entry.blockNumber}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    <div className="record-footer">
+                      <div className="record-meta">
+                        <span>{batch.submissionCount.toString()} submissions{batch.finalized ? " · finalized" : ""}</span>
+                        <span className={`status-indicator ${batch.decided ? (batch.accessGranted ? "active" : "revoked") : "expired"}`}>
+                          {batch.decided
+                            ? `${batch.accessGranted ? "granted" : "denied"}${batch.vehicleClass ? ` (${batch.vehicleClass})` : ""}`
+                            : "no decision"}
+                        </span>
+                      </div>
+                      <div className="record-actions">
+                        {batch.closed && (
+                          <button className="hud-button small" onClick={() => checkAccess(batch.batchId)} disabled={isCheckingAccess}>
+                            CHECK
+                          </button>
+                        )}
+                        {contractOwner && isOwner(contractOwner) && batch.closed && !batch.finalized && batch.submissionCount > 0n && (
+                          <button className="hud-button small" onClick={() => finalizeBatchStatistics(batch.batchId)}>
+                            FINALIZE
+                          </button>
+                        )}
+                        {contractOwner && isOwner(contractOwner) && (
+                          <button
+                            className="hud-button small"
+                            onClick={() => decryptBatch(batch)}
+                            disabled={isDecrypting || decryptingBatchId === batchKey}
+                          >
+                            {decryptingBatchId === batchKey ? "DECRYPTING..." : "DECRYPT"}
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Create Modal */}
@@ -515,8 +762,12 @@ const App: React.FC = () => {
           creating={creating} 
           recordData={newRecordData} 
           setRecordData={setNewRecordData}
+          encryptedInput={encryptedInput}
+          isEncrypting={isEncrypting}
+          onEncrypt={() => encryptRecordPreferences().catch(e => alert("Encryption failed: " + (e.message || "Unknown error")))}
           currentStep={currentStep}
           setCurrentStep={setCurrentStep}
+          preflight={mintPreflight}
         />
       )}
 
@@ -532,20 +783,18 @@ const App: React.FC = () => {
         />
       )}
 
-      {/* Transaction Status */}
-      {transactionStatus.visible && (
-        <div className="transaction-overlay hud-overlay">
-          <div className="transaction-panel hud-panel">
-            <div className={`transaction-icon ${transactionStatus.status}`}>
-              {transactionStatus.status === "pending" && <div className="hud-spinner"></div>}
-              {transactionStatus.status === "success" && "✓"}
-              {transactionStatus.status === "error" && "✗"}
-            </div>
-            <div className="transaction-message">{transactionStatus.message}</div>
-          </div>
-        </div>
+      {/* RPC Settings Modal */}
+      {showRpcSettings && (
+        <RpcSettingsModal
+          chainId={chainId}
+          onClose={() => setShowRpcSettings(false)}
+          onSaved={() => { setShowRpcSettings(false); loadRecords(); loadBatches(); }}
+        />
       )}
 
+      {/* Notifications */}
+      <NotificationTray notices={notices} onDismissNotice={dismissNotice} />
+
       {/* Footer */}
       <footer className="app-footer hud-footer">
         <div className="footer-content">
@@ -565,18 +814,31 @@ const App: React.FC = () => {
 };
 
 // Modal Components
+type MintPreflight =
+  | { status: "checking" }
+  | { status: "ok"; estimate: GasEstimate }
+  | { status: "blocked"; reason: string };
+
+const formatGasEstimate = ({ gas, cost }: GasEstimate) =>
+  `${gas.toLocaleString()} gas` + (cost === null ? "" : ` (≈ ${Number(ethers.formatEther(cost)).toFixed(6)} ETH)`);
+
 interface ModalCreateProps {
   onSubmit: () => void; 
   onClose: () => void; 
   creating: boolean;
   recordData: any;
   setRecordData: (data: any) => void;
+  encryptedInput: EncryptedPreferences | null;
+  isEncrypting: boolean;
+  onEncrypt: () => void;
   currentStep: number;
   setCurrentStep: (step: number) => void;
+  // Simulation of the mint on the confirmation step; null until the preferences are encrypted
+  preflight: MintPreflight | null;
 }
 
 const ModalCreate: React.FC<ModalCreateProps> = ({ 
-  onSubmit, onClose, creating, recordData, setRecordData, currentStep, setCurrentStep 
+  onSubmit, onClose, creating, recordData, setRecordData, encryptedInput, isEncrypting, onEncrypt, currentStep, setCurrentStep, preflight
 }) => {
   const steps = ["Vehicle Setup", "Preferences", "Encryption", "Confirmation"];
 
@@ -661,15 +923,19 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                 </div>
                 <div className="encryption-arrow">→</div>
                 <div className="data-section encrypted">
-                  <div className="data-label">FHE Encrypted</div>
-                  <div className="data-value">
-                    {JSON.stringify({
-                      temperature: FHEEncryptNumber(recordData.preferences.temperature).substring(0, 20) + '...',
-                      musicVolume: FHEEncryptNumber(recordData.preferences.musicVolume).substring(0, 20) + '...',
-                      drivingStyle: FHEEncryptNumber(recordData.preferences.drivingStyle).substring(0, 20) + '...',
-                      routePriority: FHEEncryptNumber(recordData.preferences.routePriority).substring(0, 20) + '...'
-                    })}
-                  </div>
+                  <div className="data-label">FHE Ciphertext Handles</div>
+                  {encryptedInput ? (
+                    <div className="data-value">
+                      {JSON.stringify(Object.fromEntries(
+                        Object.entries(encryptedInput.handles).map(([key, handle]) => [key, shortHandle(handle)])
+                      ))}
+                      <div>Input proof: {(encryptedInput.inputProof.length - 2) / 2} bytes</div>
+                    </div>
+                  ) : (
+                    <button onClick={onEncrypt} disabled={isEncrypting} className="hud-button">
+                      {isEncrypting ? "Encrypting with FHE..." : "Encrypt with Zama FHE"}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -700,6 +966,18 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
                   ))}
                 </div>
               </div>
+              <div className="summary-item">
+                <span>Estimated Gas:</span>
+                <span>
+                  {!preflight && "Encrypt preferences in step 3 to estimate"}
+                  {preflight?.status === "checking" && "Simulating..."}
+                  {preflight?.status === "ok" && formatGasEstimate(preflight.estimate)}
+                  {preflight?.status === "blocked" && "-"}
+                </span>
+              </div>
+              {preflight?.status === "blocked" && (
+                <div className="records-warning">This mint would fail: {preflight.reason}</div>
+              )}
             </div>
           </div>
         );
@@ -738,7 +1016,7 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
               Next
             </button>
           ) : (
-            <button onClick={handleSubmit} disabled={creating} className="hud-button primary">
+            <button onClick={handleSubmit} disabled={creating || preflight?.status === "checking" || preflight?.status === "blocked"} className="hud-button primary">
               {creating ? "Encrypting with FHE..." : "Create DAV Access"}
             </button>
           )}
@@ -748,6 +1026,106 @@ const ModalCreate: React.FC<ModalCreateProps> = ({
   );
 };
 
+interface RpcSettingsModalProps {
+  chainId: number;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Lets the user read through their own RPC endpoints; the list is kept per chain in localStorage
+const RpcSettingsModal: React.FC<RpcSettingsModalProps> = ({ chainId, onClose, onSaved }) => {
+  const [urls, setUrls] = useState(() => getRpcUrls(chainId).join("\n"));
+  const [invalidUrls, setInvalidUrls] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<EndpointStatus[]>([]);
+  const [quorum, setQuorum] = useState<QuorumStatus | null>(null);
+  const [isProbing, setIsProbing] = useState(false);
+  const isOverridden = getRpcOverride(chainId) !== null;
+
+  useEffect(() => {
+    const refresh = () => {
+      setStatuses(getEndpointStatuses(chainId));
+      setQuorum(getQuorumStatus(chainId));
+    };
+    refresh();
+    const timer = setInterval(refresh, 2000);
+    return () => clearInterval(timer);
+  }, [chainId]);
+
+  const handleProbe = async () => {
+    setIsProbing(true);
+    await probeEndpoints(chainId);
+    setStatuses(getEndpointStatuses(chainId));
+    setQuorum(getQuorumStatus(chainId));
+    setIsProbing(false);
+  };
+
+  const handleSave = () => {
+    const invalid = saveRpcOverride(chainId, urls.split(/[\s,]+/));
+    setInvalidUrls(invalid);
+    if (invalid.length === 0) onSaved();
+  };
+
+  const handleReset = () => {
+    clearRpcOverride(chainId);
+    onSaved();
+  };
+
+  return (
+    <div className="modal-overlay hud-overlay">
+      <div className="create-modal hud-panel">
+        <div className="modal-header">
+          <h2>RPC Endpoints - {getChainConfig(chainId).name}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+
+        <div className="modal-body">
+          <div className="form-group">
+            <label>One URL per line, tried in order{isOverridden ? " (custom list)" : ""}</label>
+            <textarea value={urls} onChange={e => setUrls(e.target.value)} rows={6} className="hud-input" />
+          </div>
+          {invalidUrls.length > 0 && (
+            <div className="records-warning">Not an http(s) or ws(s) URL: {invalidUrls.join(", ")}</div>
+          )}
+          <table className="rpc-status">
+            <thead>
+              <tr><th>Endpoint</th><th>Status</th><th>Latency</th><th>Errors</th><th>Block</th><th>Lag</th></tr>
+            </thead>
+            <tbody>
+              {statuses.map(status => (
+                <tr key={status.url} title={status.lastError ?? ""}>
+                  <td className="rpc-url">{status.url}</td>
+                  <td className={`rpc-state ${status.state}`}>{status.state}</td>
+                  <td>{status.latencyMs === null ? "-" : `${status.latencyMs} ms`}</td>
+                  <td>{Math.round(status.errorRate * 100)}%</td>
+                  <td>{status.blockNumber ?? "-"}</td>
+                  <td>{status.lag ?? "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {quorum && quorum.healthy < quorum.required && (
+            <div className="records-warning">
+              Contract checks need {quorum.required} healthy endpoints to agree and {quorum.healthy} {quorum.healthy === 1 ? "is" : "are"} healthy, so they fail until more endpoints respond.
+            </div>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <button onClick={handleProbe} disabled={isProbing} className="hud-button">
+            {isProbing ? "Checking..." : "Check Now"}
+          </button>
+          <button onClick={handleReset} disabled={!isOverridden} className="hud-button">
+            Reset to Default
+          </button>
+          <button onClick={handleSave} className="hud-button primary">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 interface RecordDetailModalProps {
   record: DAVRecord;
   onClose: () => void;
@@ -804,7 +1182,12 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
             <div className="preferences-comparison">
               <div className="preferences-column">
                 <h4>FHE Encrypted</h4>
-                {/* Render encrypted preferences chart */}
+                {Object.entries(record.preferences || {}).map(([key, handle]) => (
+                  <div key={key} className="summary-item">
+                    <span>{key}:</span>
+                    <span>{typeof handle === "string" ? shortHandle(handle) : "🔒"}</span>
+                  </div>
+                ))}
               </div>
               
               <div className="decryption-interface">
@@ -817,7 +1200,12 @@ const RecordDetailModal: React.FC<RecordDetailModalProps> = ({
               {decryptedPreferences && (
                 <div className="preferences-column decrypted">
                   <h4>Decrypted</h4>
-                  {/* Render decrypted preferences chart */}
+                  {Object.entries(decryptedPreferences).map(([key, value]) => (
+                    <div key={key} className="summary-item">
+                      <span>{key}:</span>
+                      <span>{value as number}</span>
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
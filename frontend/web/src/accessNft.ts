@@ -0,0 +1,304 @@
+// accessNft.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/DavAccessNFT_FHE.json";
+import { getDavAccessNFTAddress, getReadOnlyProvider, getWalletSigner } from "./contract";
+import { cooldownMessage, cooldownRemaining, describeContractError, errorMessage } from "./contractErrors";
+import { encryptAccessScore, encryptProviderPreferences, encryptThreshold } from "./fhevm";
+import type { EncryptedPreferences, PreferenceKey, ProviderPreferenceValues } from "./fhevm";
+import { fetchDecryptionStatus } from "./indexer";
+import { trackTransaction } from "./transactions";
+
+export const DAV_ACCESS_ABI = (abiJson as any).abi || abiJson;
+
+export interface AccessTokenInfo {
+  tokenId: bigint;
+  holder: string;
+  vehicleId: string;
+  accessType: "temporary" | "permanent";
+  status: "active" | "revoked";
+  mintedAt: number;
+  contractAddress: string;
+  // Ciphertext handles keyed by frontend preference name
+  handles: Record<PreferenceKey, string>;
+}
+
+// Outcome of an access check; only the publicly decrypted comparison leaves the encrypted domain
+export interface AccessDecision {
+  requestId: bigint;
+  batchId: bigint;
+  accessGranted: boolean;
+}
+
+export type AggregateKey = "drivingStyle" | "routePreference" | "comfortLevel" | "accessScore";
+
+export const AGGREGATE_KEYS: AggregateKey[] = ["drivingStyle", "routePreference", "comfortLevel", "accessScore"];
+
+// One provider batch with its encrypted sums and the last published access decision
+export interface BatchInfo {
+  batchId: bigint;
+  submissionCount: bigint;
+  closed: boolean;
+  finalized: boolean;
+  handles: Record<AggregateKey, string>;
+  decided: boolean;
+  accessGranted: boolean;
+  vehicleClass: string;
+}
+
+// Classes offered in the admin UI; the contract accepts any non-empty name
+export const VEHICLE_CLASSES = ["economy", "premium", "accessibility-van"];
+
+export async function getAccessNftReadOnly() {
+  const provider = await getReadOnlyProvider();
+  return new ethers.Contract(getDavAccessNFTAddress(), DAV_ACCESS_ABI, provider);
+}
+
+export async function getAccessNftWithSigner() {
+  const { signer, chainId } = await getWalletSigner();
+  return new ethers.Contract(getDavAccessNFTAddress(chainId), DAV_ACCESS_ABI, signer);
+}
+
+export async function getAccessToken(contract: ethers.Contract, tokenId: bigint): Promise<AccessTokenInfo> {
+  const [holder, token, prefs, contractAddress] = await Promise.all([
+    contract.ownerOf(tokenId),
+    contract.accessTokens(tokenId),
+    contract.getTokenPreferences(tokenId),
+    contract.getAddress()
+  ]);
+  return toAccessTokenInfo(tokenId, holder, token, prefs, contractAddress);
+}
+
+// Builds the token view from the results of ownerOf, accessTokens and getTokenPreferences
+export function toAccessTokenInfo(tokenId: bigint, holder: string, token: ethers.Result, prefs: ethers.Result, contractAddress: string): AccessTokenInfo {
+  return {
+    tokenId,
+    holder,
+    vehicleId: token.vehicleId,
+    accessType: token.permanent ? "permanent" : "temporary",
+    status: token.revoked ? "revoked" : "active",
+    mintedAt: Number(token.mintedAt),
+    contractAddress,
+    // The contract names cabin temperature its comfort level and route priority its route preference
+    handles: {
+      temperature: prefs.comfortLevel,
+      musicVolume: prefs.musicVolume,
+      drivingStyle: prefs.drivingStyle,
+      routePriority: prefs.routePreference
+    }
+  };
+}
+
+// Guards mirror the contract's modifiers; batchOpen stands for the check inside _submitPreferences/_updateAccessScore
+export type WriteGuard = "onlyOwner" | "onlyProvider" | "whenNotPaused" | "batchOpen" | "submissionCooldown" | "decryptionCooldown";
+
+export interface GasEstimate {
+  gas: bigint;
+  // gas times the current max fee per gas, in wei; null when the node reports no fee data
+  cost: bigint | null;
+}
+
+// The reverts users hit most, read up front so the message can say why and, for cooldowns, for how long
+async function checkWriteState(contract: ethers.Contract, account: string, guards: WriteGuard[]) {
+  const has = (guard: WriteGuard) => guards.includes(guard);
+  const [paused, owner, isProvider, batchOpen] = await Promise.all([
+    has("whenNotPaused") ? contract.paused() : false,
+    has("onlyOwner") ? contract.owner() : account,
+    has("onlyProvider") ? contract.isProvider(account) : true,
+    has("batchOpen") ? contract.batchOpen() : true
+  ]);
+  if (owner.toLowerCase() !== account.toLowerCase()) throw new Error(errorMessage("NotOwner"));
+  if (!isProvider) throw new Error(errorMessage("NotProvider"));
+  if (paused) throw new Error(errorMessage("PausedContract"));
+  if (!batchOpen) throw new Error(errorMessage("BatchNotOpen"));
+
+  for (const [guard, clock] of [["submissionCooldown", "lastSubmissionTime"], ["decryptionCooldown", "lastDecryptionRequestTime"]] as const) {
+    if (!has(guard)) continue;
+    const remaining = await cooldownRemaining(contract, account, clock);
+    if (remaining > 0) throw new Error(cooldownMessage(clock, remaining));
+  }
+}
+
+// Checks the state and simulates the call from the signer's account, so a write that would revert
+// never reaches the wallet's signing prompt. Throws the decoded reason; resolves with the predicted gas.
+export async function preflightWrite(contract: ethers.Contract, method: string, args: any[], guards: WriteGuard[]): Promise<GasEstimate> {
+  const signer = contract.runner as ethers.Signer;
+  await checkWriteState(contract, await signer.getAddress(), guards);
+
+  const fn = contract.getFunction(method);
+  try {
+    await fn.staticCall(...args);
+    const [gas, fees] = await Promise.all([fn.estimateGas(...args), signer.provider!.getFeeData()]);
+    const price = fees.maxFeePerGas ?? fees.gasPrice;
+    return { gas, cost: price === null ? null : gas * price };
+  } catch (e) {
+    throw new Error(await describeContractError(e));
+  }
+}
+
+const MINT_GUARDS: WriteGuard[] = ["whenNotPaused"];
+
+const mintArgs = (vehicleId: string, accessType: "temporary" | "permanent", encrypted: EncryptedPreferences) => [
+  vehicleId,
+  accessType === "permanent",
+  encrypted.handles.drivingStyle,
+  encrypted.handles.routePriority,
+  encrypted.handles.temperature,
+  encrypted.handles.musicVolume,
+  encrypted.inputProof
+];
+
+// Shown on the confirmation step of the create modal before anything is signed
+export async function estimateMintAccess(vehicleId: string, accessType: "temporary" | "permanent", encrypted: EncryptedPreferences): Promise<GasEstimate> {
+  const contract = await getAccessNftWithSigner();
+  return preflightWrite(contract, "mintAccess", mintArgs(vehicleId, accessType, encrypted), MINT_GUARDS);
+}
+
+export async function mintAccess(vehicleId: string, accessType: "temporary" | "permanent", encrypted: EncryptedPreferences): Promise<bigint | null> {
+  const contract = await getAccessNftWithSigner();
+  const args = mintArgs(vehicleId, accessType, encrypted);
+  await preflightWrite(contract, "mintAccess", args, MINT_GUARDS);
+  const tx = await contract.mintAccess(...args);
+  const receipt = await trackTransaction(tx, `Mint access for ${vehicleId}`);
+
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "AccessMinted") return parsed.args.tokenId as bigint;
+  }
+  return null;
+}
+
+export async function revokeAccess(tokenId: bigint) {
+  const contract = await getAccessNftWithSigner();
+  await preflightWrite(contract, "revokeAccess", [tokenId], []);
+  const tx = await contract.revokeAccess(tokenId);
+  return trackTransaction(tx, `Revoke access #${tokenId}`);
+}
+
+const SUBMISSION_GUARDS: WriteGuard[] = ["onlyProvider", "whenNotPaused", "batchOpen", "submissionCooldown"];
+
+// submitPreferences and updateAccessScore are overloaded, so the proof-carrying variants are called by signature
+export async function submitEncryptedPreferences(values: ProviderPreferenceValues) {
+  const contract = await getAccessNftWithSigner();
+  const provider = await (contract.runner as ethers.Signer).getAddress();
+  const { handles, inputProof } = await encryptProviderPreferences(provider, values);
+  const method = "submitPreferences(bytes32,bytes32,bytes32,bytes)";
+  await preflightWrite(contract, method, [...handles, inputProof], SUBMISSION_GUARDS);
+  const tx = await contract[method](...handles, inputProof);
+  return trackTransaction(tx, "Submit encrypted preferences");
+}
+
+export async function updateEncryptedAccessScore(score: number) {
+  const contract = await getAccessNftWithSigner();
+  const provider = await (contract.runner as ethers.Signer).getAddress();
+  const { handle, inputProof } = await encryptAccessScore(provider, score);
+  const method = "updateAccessScore(bytes32,bytes)";
+  await preflightWrite(contract, method, [handle, inputProof], SUBMISSION_GUARDS);
+  const tx = await contract[method](handle, inputProof);
+  return trackTransaction(tx, "Update encrypted access score");
+}
+
+export function parseAccessDecision(contract: ethers.Contract, log: ethers.Log): AccessDecision | null {
+  const parsed = contract.interface.parseLog(log);
+  if (parsed?.name !== "DecryptionCompleted") return null;
+  return {
+    requestId: parsed.args.requestId,
+    batchId: parsed.args.batchId,
+    accessGranted: parsed.args.accessGranted
+  };
+}
+
+// requestAccessCheck is overloaded: without a class it compares against the plaintext ACCESS_THRESHOLD
+export async function requestAccessCheck(batchId: bigint, vehicleClass?: string): Promise<{ requestId: bigint; blockNumber: number }> {
+  const contract = await getAccessNftWithSigner();
+  const [method, args] = vehicleClass
+    ? ["requestAccessCheck(uint256,string)", [batchId, vehicleClass]]
+    : ["requestAccessCheck(uint256)", [batchId]];
+  await preflightWrite(contract, method, args, ["whenNotPaused", "decryptionCooldown"]);
+  const tx = await contract[method](...args);
+  const receipt = await trackTransaction(tx, `Access check for batch #${batchId}`);
+
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "DecryptionRequested") {
+      return { requestId: parsed.args.requestId as bigint, blockNumber: receipt.blockNumber };
+    }
+  }
+  throw new Error("DecryptionRequested event not found");
+}
+
+// The decryption oracle answers asynchronously, so poll for its callback
+export async function waitForAccessDecision(requestId: bigint, fromBlock: number, timeoutMs = 180000, pollMs = 5000): Promise<AccessDecision> {
+  const contract = await getAccessNftReadOnly();
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const status = await fetchDecryptionStatus(requestId);
+    if (status?.status === "completed") {
+      return { requestId, batchId: BigInt(status.batchId), accessGranted: Boolean(status.accessGranted) };
+    }
+    // Scan logs directly when the indexer is not running or has not seen the request yet
+    if (!status) {
+      const logs = await contract.queryFilter(contract.filters.DecryptionCompleted(requestId), fromBlock);
+      for (const log of logs) {
+        const decision = parseAccessDecision(contract, log);
+        if (decision) return decision;
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, pollMs));
+  }
+  throw new Error("Timed out waiting for the decryption oracle");
+}
+
+export async function getContractOwner(): Promise<string> {
+  const contract = await getAccessNftReadOnly();
+  return contract.owner();
+}
+
+export async function listVehicleClasses(): Promise<string[]> {
+  const contract = await getAccessNftReadOnly();
+  return [...await contract.getVehicleClasses()];
+}
+
+export async function setClassThreshold(vehicleClass: string, threshold: number) {
+  const contract = await getAccessNftWithSigner();
+  const owner = await (contract.runner as ethers.Signer).getAddress();
+  const { handle, inputProof } = await encryptThreshold(owner, threshold);
+  await preflightWrite(contract, "setClassThreshold", [vehicleClass, handle, inputProof], ["onlyOwner", "whenNotPaused"]);
+  const tx = await contract.setClassThreshold(vehicleClass, handle, inputProof);
+  return trackTransaction(tx, `Set ${vehicleClass} threshold`);
+}
+
+export async function getBatch(contract: ethers.Contract, batchId: bigint): Promise<BatchInfo> {
+  const batch = await contract.getBatch(batchId);
+  return {
+    batchId,
+    submissionCount: batch.submissionCount,
+    closed: batch.closed,
+    finalized: batch.finalized,
+    handles: {
+      drivingStyle: batch.aggregates.drivingStyle,
+      routePreference: batch.aggregates.routePreference,
+      comfortLevel: batch.aggregates.comfortLevel,
+      accessScore: batch.aggregates.accessScore
+    },
+    decided: batch.result.decided,
+    accessGranted: batch.result.accessGranted,
+    vehicleClass: batch.result.vehicleClass
+  };
+}
+
+// Newest batch first
+export async function listBatches(): Promise<BatchInfo[]> {
+  const contract = await getAccessNftReadOnly();
+  const currentBatchId: bigint = await contract.currentBatchId();
+
+  const batchIds = Array.from({ length: Number(currentBatchId) }, (_, i) => currentBatchId - BigInt(i));
+  return Promise.all(batchIds.map(batchId => getBatch(contract, batchId)));
+}
+
+export async function finalizeBatch(batchId: bigint) {
+  const contract = await getAccessNftWithSigner();
+  await preflightWrite(contract, "finalizeBatch", [batchId], ["onlyOwner", "whenNotPaused"]);
+  const tx = await contract.finalizeBatch(batchId);
+  return trackTransaction(tx, `Finalize batch #${batchId}`);
+}
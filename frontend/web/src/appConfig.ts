@@ -0,0 +1,113 @@
+// appConfig.ts
+import configJson from "./config.json";
+
+export type ContractName = "DavAccessNFT_FHE" | "UniversalAdapter";
+
+// Per-chain deployment from config.json
+export interface ChainConfig {
+  name: string;
+  rpcUrls: string[];
+  deployer: string;
+  contracts: Record<ContractName, string>;
+  // Blocks a transaction needs on top of it before the UI calls it confirmed
+  confirmations?: number;
+  // Block explorer base URL used to link transactions, e.g. https://sepolia.etherscan.io
+  explorerUrl?: string;
+  // RPC endpoints that must agree on getCode; 1 trusts a single endpoint, e.g. a local node
+  quorum?: number;
+  // Event indexer that follows this chain, e.g. http://localhost:8787; without one reads go to the contracts
+  indexerUrl?: string;
+}
+
+export interface ConfigFile {
+  defaultChainId: number;
+  chains: Record<string, ChainConfig>;
+}
+
+// config.json merged with the VITE_* environment; secrets such as RPC keys only come from the environment
+export interface AppConfig {
+  walletConnectProjectId: string;
+  defaultChainId: number;
+  chains: Record<string, ChainConfig>;
+}
+
+type Env = Record<string, string | boolean | undefined>;
+
+const splitUrls = (value: string) => value.split(",").map(url => url.trim()).filter(Boolean);
+
+const isRpcUrl = (url: string) => /^(https?|wss?):\/\/\S+$/.test(url);
+
+export function loadAppConfig(file: ConfigFile, env: Env): { config: AppConfig; errors: string[] } {
+  const errors: string[] = [];
+
+  const walletConnectProjectId = String(env.VITE_WALLETCONNECT_PROJECT_ID ?? "").trim();
+  if (!walletConnectProjectId) {
+    errors.push("VITE_WALLETCONNECT_PROJECT_ID is not set");
+  }
+
+  const chains: Record<string, ChainConfig> = {};
+  for (const [chainId, chain] of Object.entries(file.chains)) {
+    const fromEnv = env[`VITE_RPC_URLS_${chainId}`];
+    const rpcUrls = typeof fromEnv === "string" && fromEnv.trim() ? splitUrls(fromEnv) : chain.rpcUrls;
+    for (const url of rpcUrls.filter(url => !isRpcUrl(url))) {
+      errors.push(`RPC URL "${url}" for chain ${chainId} is not an http(s) or ws(s) URL`);
+    }
+    const indexerUrl = String(env[`VITE_INDEXER_URL_${chainId}`] || chain.indexerUrl || "").trim();
+    chains[chainId] = { ...chain, rpcUrls, indexerUrl: indexerUrl || undefined };
+  }
+
+  const defaultChain = chains[String(file.defaultChainId)];
+  if (!defaultChain) {
+    errors.push(`defaultChainId ${file.defaultChainId} has no entry in config.json`);
+  } else if (defaultChain.rpcUrls.length === 0) {
+    errors.push(`No RPC URLs for chain ${file.defaultChainId}; set VITE_RPC_URLS_${file.defaultChainId}`);
+  }
+
+  return {
+    config: { walletConnectProjectId, defaultChainId: file.defaultChainId, chains },
+    errors
+  };
+}
+
+// Validated once at startup; main.tsx shows CONFIG_ERRORS instead of the app when there are any
+const loaded = loadAppConfig(configJson, import.meta.env);
+export const APP_CONFIG: AppConfig = loaded.config;
+export const CONFIG_ERRORS: string[] = loaded.errors;
+
+const RPC_OVERRIDES_KEY = "davAccess.rpcOverrides";
+
+function readRpcOverrides(): Record<string, string[]> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RPC_OVERRIDES_KEY) ?? "{}");
+    return stored && typeof stored === "object" ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getRpcOverride(chainId: number): string[] | null {
+  const urls = readRpcOverrides()[String(chainId)];
+  return Array.isArray(urls) && urls.length > 0 ? urls : null;
+}
+
+// RPC URLs for a chain: the user's own list from the settings panel wins over the configured one
+export function getRpcUrls(chainId: number): string[] {
+  return getRpcOverride(chainId) ?? APP_CONFIG.chains[String(chainId)]?.rpcUrls ?? [];
+}
+
+// Returns the URLs that were rejected; nothing is saved unless every URL is valid
+export function saveRpcOverride(chainId: number, urls: string[]): string[] {
+  const cleaned = urls.map(url => url.trim()).filter(Boolean);
+  const invalid = cleaned.filter(url => !isRpcUrl(url));
+  if (invalid.length > 0) return invalid;
+
+  const overrides = readRpcOverrides();
+  if (cleaned.length > 0) overrides[String(chainId)] = cleaned;
+  else delete overrides[String(chainId)];
+  localStorage.setItem(RPC_OVERRIDES_KEY, JSON.stringify(overrides));
+  return [];
+}
+
+export function clearRpcOverride(chainId: number) {
+  saveRpcOverride(chainId, []);
+}
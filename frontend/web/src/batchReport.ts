@@ -0,0 +1,64 @@
+// batchReport.ts
+import { ethers } from "ethers";
+import type { DecryptedValue } from "./fhevm";
+
+export type PreferenceStatKey = "drivingStyle" | "routePreference" | "comfortLevel";
+
+export const PREFERENCE_STAT_KEYS: PreferenceStatKey[] = ["drivingStyle", "routePreference", "comfortLevel"];
+
+export interface PreferenceStatHandles {
+  mean: string;
+  min: string;
+  max: string;
+}
+
+// Ciphertext handles of DavAccessNFT_FHE.getBatchStatistics
+export interface BatchStatistics {
+  batchId: bigint;
+  finalized: boolean;
+  preferences: Record<PreferenceStatKey, PreferenceStatHandles>;
+}
+
+export interface PreferenceReport {
+  mean?: number;
+  min?: number;
+  max?: number;
+}
+
+export type BatchReport = Record<PreferenceStatKey, PreferenceReport>;
+
+type DecryptHandles = (handles: string[], contractAddress: string) => Promise<Record<string, DecryptedValue>>;
+
+const isSet = (handle: string) => BigInt(handle) !== 0n;
+
+export async function getBatchStatistics(contract: ethers.Contract, batchId: bigint): Promise<BatchStatistics> {
+  const stats = await contract.getBatchStatistics(batchId);
+  const preferences = {} as Record<PreferenceStatKey, PreferenceStatHandles>;
+  for (const key of PREFERENCE_STAT_KEYS) {
+    preferences[key] = { mean: stats[key].mean, min: stats[key].min, max: stats[key].max };
+  }
+  return { batchId, finalized: stats.finalized, preferences };
+}
+
+// Decrypts every statistic the batch already has; means stay empty until the batch is finalised
+export async function decryptBatchReport(stats: BatchStatistics, contractAddress: string, decrypt: DecryptHandles): Promise<BatchReport> {
+  const handles = PREFERENCE_STAT_KEYS.flatMap(key => Object.values(stats.preferences[key])).filter(isSet);
+  const values = handles.length > 0 ? await decrypt(handles, contractAddress) : {};
+
+  const report = {} as BatchReport;
+  for (const key of PREFERENCE_STAT_KEYS) {
+    const { mean, min, max } = stats.preferences[key];
+    report[key] = {
+      mean: isSet(mean) ? Number(values[mean]) : undefined,
+      min: isSet(min) ? Number(values[min]) : undefined,
+      max: isSet(max) ? Number(values[max]) : undefined
+    };
+  }
+  return report;
+}
+
+export function formatPreferenceReport(report: PreferenceReport): string {
+  const range = report.min !== undefined && report.max !== undefined ? `${report.min}–${report.max}` : null;
+  if (report.mean === undefined) return range ? `range ${range}` : "—";
+  return range ? `avg ${report.mean} (${range})` : `avg ${report.mean}`;
+}
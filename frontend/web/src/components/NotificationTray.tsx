@@ -0,0 +1,77 @@
+import React from 'react';
+import { APP_CONFIG } from '../appConfig';
+import { useTransactions } from '../hooks/useTransactions';
+import { confirmationsFor, dismissTransaction } from '../transactions';
+import type { TrackedTx } from '../transactions';
+
+export type NoticeStatus = "pending" | "success" | "error";
+
+// Progress of steps that are not transactions, e.g. encrypting or waiting for the oracle
+export interface Notice {
+  id: string;
+  status: NoticeStatus;
+  message: string;
+}
+
+interface NotificationTrayProps {
+  notices: Notice[];
+  onDismissNotice: (id: string) => void;
+}
+
+const TX_STATE_LABELS: Record<TrackedTx["state"], string> = {
+  pending: "Pending",
+  mined: "Mined",
+  confirmed: "Confirmed",
+  replaced: "Replaced",
+  cancelled: "Cancelled",
+  failed: "Failed",
+  unknown: "Status unknown"
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}…${hash.slice(-6)}`;
+
+const TransactionLink: React.FC<{ tx: TrackedTx; hash: string }> = ({ tx, hash }) => {
+  const explorerUrl = APP_CONFIG.chains[String(tx.chainId)]?.explorerUrl;
+  return explorerUrl
+    ? <a href={`${explorerUrl.replace(/\/$/, "")}/tx/${hash}`} target="_blank" rel="noreferrer">{shortHash(hash)}</a>
+    : <span title={hash}>{shortHash(hash)}</span>;
+};
+
+const TransactionItem: React.FC<{ tx: TrackedTx }> = ({ tx }) => {
+  const finished = tx.state !== "pending" && tx.state !== "mined";
+  const required = confirmationsFor(tx.chainId);
+
+  return (
+    <div className={`notification ${tx.state}`}>
+      <div className="notification-body">
+        <div>{tx.label}: {TX_STATE_LABELS[tx.state]}{tx.state === "mined" && ` (${tx.confirmations}/${required} confirmations)`}</div>
+        <div className="notification-detail">
+          <TransactionLink tx={tx} hash={tx.hash} />
+          {tx.replacedBy && <> → <TransactionLink tx={tx} hash={tx.replacedBy} /></>}
+          {tx.error && <div>{tx.error}</div>}
+        </div>
+      </div>
+      {finished && <button onClick={() => dismissTransaction(tx.hash)} className="close-modal">&times;</button>}
+    </div>
+  );
+};
+
+// Bottom-right stack of step notices and every tracked transaction of this browser
+const NotificationTray: React.FC<NotificationTrayProps> = ({ notices, onDismissNotice }) => {
+  const transactions = useTransactions();
+  if (notices.length === 0 && transactions.length === 0) return null;
+
+  return (
+    <div className="notification-tray">
+      {notices.map(notice => (
+        <div key={notice.id} className={`notification ${notice.status}`}>
+          <div className="notification-body">{notice.message}</div>
+          <button onClick={() => onDismissNotice(notice.id)} className="close-modal">&times;</button>
+        </div>
+      ))}
+      {transactions.map(tx => <TransactionItem key={tx.hash} tx={tx} />)}
+    </div>
+  );
+};
+
+export default NotificationTray;
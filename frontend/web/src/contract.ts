@@ -1,10 +1,45 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { APP_CONFIG } from "./appConfig";
+import type { ChainConfig, ContractName } from "./appConfig";
+import { getPooledProvider } from "./rpcPool";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const config = APP_CONFIG;
+
+export const SUPPORTED_CHAIN_IDS = Object.keys(config.chains).map(Number);
+
+let activeChainId = config.defaultChainId;
+
+// Reads follow the wallet's chain; an unsupported or missing chain falls back to the default
+export function resolveChainId(walletChainId?: number): number {
+  return walletChainId !== undefined && SUPPORTED_CHAIN_IDS.includes(walletChainId) ? walletChainId : config.defaultChainId;
+}
+
+export function setActiveChainId(chainId: number) {
+  activeChainId = resolveChainId(chainId);
+}
+
+export function getActiveChainId(): number {
+  return activeChainId;
+}
+
+export function getChainConfig(chainId = activeChainId): ChainConfig {
+  const chain = config.chains[String(chainId)];
+  if (!chain) {
+    throw new Error(`Chain ${chainId} is not configured`);
+  }
+  return chain;
+}
+
+export function getContractAddress(name: ContractName, chainId = activeChainId): string {
+  const address = getChainConfig(chainId).contracts[name];
+  if (!address || !ethers.isAddress(address)) {
+    throw new Error(`${name} address is not configured for chain ${chainId}`);
+  }
+  return address;
+}
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,43 +53,33 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
+// Reads go through a health-scored pool of the chain's RPC endpoints; see rpcPool.ts
+export const getReadOnlyProvider = async (chainId = activeChainId) => {
+  getChainConfig(chainId);
+  return getPooledProvider(chainId);
 };
 
+export function getDavAccessNFTAddress(chainId = activeChainId): string {
+  return getContractAddress("DavAccessNFT_FHE", chainId);
+}
+
+// Writes go to the contracts deployed on whichever chain the wallet is on
+export async function getWalletSigner(): Promise<{ signer: ethers.JsonRpcSigner; chainId: number }> {
+  if (!window.ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const provider = new ethers.BrowserProvider(window.ethereum as any);
+  const [signer, network] = await Promise.all([provider.getSigner(), provider.getNetwork()]);
+  return { signer, chainId: Number(network.chainId) };
+}
+
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const address = getContractAddress("UniversalAdapter");
+    const provider = await getReadOnlyProvider();
+    const contract = new ethers.Contract(address, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -67,13 +92,9 @@ export async function getContractReadOnly() {
 }
 
 export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
-  }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const { signer, chainId } = await getWalletSigner();
+    const contract = new ethers.Contract(getContractAddress("UniversalAdapter", chainId), ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
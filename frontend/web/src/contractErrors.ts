@@ -0,0 +1,121 @@
+// contractErrors.ts
+import { ethers } from "ethers";
+import davAbiJson from "./abi/DavAccessNFT_FHE.json";
+import adapterAbiJson from "./abi/UniversalAdapter.json";
+import { getReadOnlyProvider } from "./contract";
+
+export interface DecodedError {
+  name: string;
+  args: ethers.Result;
+}
+
+// Submissions and access checks each have their own cooldown clock on DavAccessNFT_FHE
+export type CooldownClock = "lastSubmissionTime" | "lastDecryptionRequestTime";
+
+const davInterface = new ethers.Interface((davAbiJson as any).abi || davAbiJson);
+// Custom errors of both contracts, plus the built-in Error(string) and Panic(uint256)
+const errorInterface = new ethers.Interface(
+  [...((davAbiJson as any).abi || davAbiJson), ...((adapterAbiJson as any).abi || adapterAbiJson)]
+    .filter((fragment: any) => fragment.type === "error")
+);
+
+// What the user can do about each custom error; CooldownActive and NotKeyOwner are worded from the chain state
+const ERROR_MESSAGES: Record<string, string> = {
+  NotOwner: "Only the contract owner can do this. Switch to the owner wallet.",
+  NotProvider: "This wallet is not a registered provider. Ask the contract owner to add it with addProvider.",
+  PausedContract: "The contract is paused by its owner. Try again once it is unpaused.",
+  CooldownActive: "This wallet is in its cooldown period. Wait a moment and try again.",
+  BatchNotOpen: "No batch is open for submissions. Wait for the owner to open the next batch.",
+  InvalidBatch: "That batch does not exist or is still open. Only closed batches can be checked or finalized.",
+  ReplayAttempt: "This decryption result has already been delivered.",
+  StateMismatch: "The batch changed after the access check was requested. Request the check again.",
+  InvalidProof: "The decryption proof was rejected. Request the access check again.",
+  NotInitialized: "The batch has no submissions yet, so there is nothing to check.",
+  NotTokenHolder: "Only the token holder or the contract owner can revoke this access.",
+  TokenRevoked: "This access has already been revoked.",
+  UnknownVehicleClass: "That vehicle class has no threshold. Ask the owner to set one first.",
+  BatchAlreadyFinalized: "This batch has already been finalized.",
+  HandleNotAllowed: "This wallet has no access to one of the encrypted values it submitted. Encrypt the values again.",
+  InvalidKeyOwner: "The new key owner cannot be the zero address.",
+  ERC721NonexistentToken: "That access token does not exist."
+};
+
+// Wallets and nodes nest the revert data at different depths of the error
+function findRevertData(e: any): string | null {
+  for (const candidate of [e?.data, e?.error?.data, e?.error?.data?.data, e?.info?.error?.data]) {
+    if (typeof candidate === "string" && ethers.isHexString(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Works on errors from estimateGas, eth_call and replayed receipts alike
+export function decodeContractError(e: any): DecodedError | null {
+  if (e?.revert) return { name: e.revert.name, args: e.revert.args };
+  const data = findRevertData(e);
+  if (!data || data === "0x") return null;
+  try {
+    const parsed = errorInterface.parseError(data);
+    return parsed ? { name: parsed.name, args: parsed.args } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function errorMessage(name: string): string {
+  return ERROR_MESSAGES[name] ?? name;
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+}
+
+// Seconds until account may call again, measured against the latest block rather than the local clock
+export async function cooldownRemaining(contract: ethers.Contract, account: string, clock: CooldownClock): Promise<number> {
+  const [last, cooldown, block] = await Promise.all([
+    contract[clock](account) as Promise<bigint>,
+    contract.cooldownSeconds() as Promise<bigint>,
+    contract.runner!.provider!.getBlock("latest")
+  ]);
+  return Number(last + cooldown) - (block?.timestamp ?? Math.floor(Date.now() / 1000));
+}
+
+export function cooldownMessage(clock: CooldownClock, remaining: number): string {
+  const action = clock === "lastDecryptionRequestTime" ? "request another access check" : "submit again";
+  return `Cooldown active: you can ${action} in ${formatDuration(remaining)}.`;
+}
+
+// The reverted call's selector says which cooldown clock ran out
+async function describeCooldown(transaction: { to?: string; from?: string; data?: string } | undefined): Promise<string> {
+  if (!transaction?.to || !transaction.from || !transaction.data) return ERROR_MESSAGES.CooldownActive;
+  try {
+    const fn = davInterface.parseTransaction({ data: transaction.data })?.name;
+    const clock: CooldownClock = fn === "requestAccessCheck" ? "lastDecryptionRequestTime" : "lastSubmissionTime";
+    const contract = new ethers.Contract(transaction.to, davInterface, await getReadOnlyProvider());
+    const remaining = await cooldownRemaining(contract, transaction.from, clock);
+    if (remaining > 0) return cooldownMessage(clock, remaining);
+  } catch (lookupError) {
+    console.warn("Could not read the cooldown state:", lookupError);
+  }
+  return ERROR_MESSAGES.CooldownActive;
+}
+
+// Message for the UI from any error thrown while calling or sending to the contracts
+export async function describeContractError(e: any): Promise<string> {
+  if (ethers.isError(e, "ACTION_REJECTED")) return "Transaction rejected by user";
+
+  const decoded = decodeContractError(e);
+  if (!decoded) return e?.shortMessage ?? e?.message ?? "Unknown error";
+
+  switch (decoded.name) {
+    case "Error":
+      return String(decoded.args[0]);
+    case "CooldownActive":
+      return describeCooldown(e?.transaction);
+    case "NotKeyOwner":
+      return `"${decoded.args[0]}" belongs to ${decoded.args[1]}; only that wallet can change it`;
+    default:
+      return ERROR_MESSAGES[decoded.name] ?? `${decoded.name}(${[...decoded.args].join(", ")})`;
+  }
+}
@@ -0,0 +1,77 @@
+// events.ts
+import { ethers } from "ethers";
+import { DAV_ACCESS_ABI } from "./accessNft";
+import { ABI as ADAPTER_ABI } from "./contract";
+
+export type EventSource = "DavAccessNFT_FHE" | "UniversalAdapter";
+
+// Where a decoded event came from; txHash + logIndex identify it across subscriptions
+export interface EventMeta {
+  source: EventSource;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: number;
+}
+
+export type ContractEvent = EventMeta & (
+  | { name: "AccessMinted"; tokenId: bigint; holder: string; vehicleId: string; permanent: boolean }
+  | { name: "AccessRevoked"; tokenId: bigint; revokedBy: string }
+  | { name: "Transfer"; from: string; to: string; tokenId: bigint }
+  | { name: "BatchOpened" | "BatchClosed" | "BatchFinalized"; batchId: bigint }
+  | { name: "PreferencesSubmitted"; submitter: string; batchId: bigint }
+  | { name: "AccessScoreUpdated"; updater: string; batchId: bigint }
+  | { name: "DecryptionRequested"; requestId: bigint; batchId: bigint }
+  | { name: "DecryptionCompleted"; requestId: bigint; batchId: bigint; accessGranted: boolean }
+  | { name: "DataStored"; sender: string; key: string; value: string; previousValueHash: string }
+);
+
+// Raw log fields shared by ethers and viem logs
+export interface RawLog {
+  topics: readonly string[];
+  data: string;
+  transactionHash: string | null;
+  logIndex: number | null;
+  blockNumber: number | bigint | null;
+}
+
+const interfaces: Record<EventSource, ethers.Interface> = {
+  DavAccessNFT_FHE: new ethers.Interface(DAV_ACCESS_ABI),
+  UniversalAdapter: new ethers.Interface(ADAPTER_ABI)
+};
+
+export const eventKey = (event: Pick<EventMeta, "transactionHash" | "logIndex">) => `${event.transactionHash}:${event.logIndex}`;
+
+// Returns null for pending logs and for events the UI does not follow
+export function decodeContractEvent(source: EventSource, log: RawLog): ContractEvent | null {
+  if (log.transactionHash === null || log.logIndex === null || log.blockNumber === null) return null;
+
+  const parsed = interfaces[source].parseLog({ topics: [...log.topics], data: log.data });
+  if (!parsed) return null;
+
+  const meta: EventMeta = { source, transactionHash: log.transactionHash, logIndex: log.logIndex, blockNumber: Number(log.blockNumber) };
+  const args = parsed.args;
+  switch (parsed.name) {
+    case "AccessMinted":
+      return { ...meta, name: "AccessMinted", tokenId: args.tokenId, holder: args.holder, vehicleId: args.vehicleId, permanent: args.permanent };
+    case "AccessRevoked":
+      return { ...meta, name: "AccessRevoked", tokenId: args.tokenId, revokedBy: args.revokedBy };
+    case "Transfer":
+      return { ...meta, name: "Transfer", from: args.from, to: args.to, tokenId: args.tokenId };
+    case "BatchOpened":
+    case "BatchClosed":
+    case "BatchFinalized":
+      return { ...meta, name: parsed.name, batchId: args.batchId };
+    case "PreferencesSubmitted":
+      return { ...meta, name: "PreferencesSubmitted", submitter: args.submitter, batchId: args.batchId };
+    case "AccessScoreUpdated":
+      return { ...meta, name: "AccessScoreUpdated", updater: args.updater, batchId: args.batchId };
+    case "DecryptionRequested":
+      return { ...meta, name: "DecryptionRequested", requestId: args.requestId, batchId: args.batchId };
+    case "DecryptionCompleted":
+      return { ...meta, name: "DecryptionCompleted", requestId: args.requestId, batchId: args.batchId, accessGranted: args.accessGranted };
+    case "DataStored":
+      return { ...meta, name: "DataStored", sender: args.sender, key: args.key, value: args.value, previousValueHash: args.previousValueHash };
+    default:
+      return null;
+  }
+}
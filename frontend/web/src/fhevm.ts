@@ -0,0 +1,227 @@
+// fhevm.ts
+import { ethers } from "ethers";
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { EIP712, EIP712Type, FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { getRpcUrls } from "./appConfig";
+import { getActiveChainId, getDavAccessNFTAddress, getReadOnlyProvider } from "./contract";
+
+// Chain id of `npx hardhat node`, where @fhevm/hardhat-plugin runs a mock coprocessor and relayer
+const HARDHAT_CHAIN_ID = 31337;
+
+export interface PreferenceValues {
+  temperature: number;
+  musicVolume: number;
+  drivingStyle: number;
+  routePriority: number;
+}
+
+export type PreferenceKey = keyof PreferenceValues;
+
+// Order in which preferences are packed into a single encrypted input.
+// Handles returned by the relayer follow the same order.
+export const PREFERENCE_KEYS: PreferenceKey[] = ["temperature", "musicVolume", "drivingStyle", "routePriority"];
+
+export interface EncryptedPreferences {
+  contractAddress: string;
+  userAddress: string;
+  handles: Record<PreferenceKey, string>;
+  inputProof: string;
+}
+
+// Inputs of the provider overloads of submitPreferences / updateAccessScore
+export interface ProviderPreferenceValues {
+  drivingStyle: number;
+  routePreference: number;
+  comfortLevel: number;
+}
+
+export interface EncryptedProviderPreferences {
+  handles: [drivingStyle: string, routePreference: string, comfortLevel: string];
+  inputProof: string;
+}
+
+export interface EncryptedAccessScore {
+  handle: string;
+  inputProof: string;
+}
+
+// Input of setClassThreshold; only the contract owner can produce one the contract accepts
+export interface EncryptedThreshold {
+  handle: string;
+  inputProof: string;
+}
+
+const instances = new Map<number, Promise<FhevmInstance>>();
+
+// The hardhat node answers the relayer's requests itself (fhevm_relayer_metadata, input proofs,
+// user decryption), so the mock instance talks to the node directly rather than through the wallet
+async function createMockInstance(chainId: number): Promise<FhevmInstance> {
+  const { MockFhevmInstance, contracts, relayer } = await import("@fhevm/mock-utils");
+  const node = new ethers.JsonRpcProvider(getRpcUrls(chainId)[0], chainId, { staticNetwork: true });
+  const readOnly = await getReadOnlyProvider(chainId);
+  let metadata;
+  try {
+    metadata = await relayer.requestRelayerMetadata(node);
+  } catch (e) {
+    throw new Error(`The node at ${getRpcUrls(chainId)[0]} does not run the fhevm mock; start it with \`npx hardhat node\` (${(e as Error).message})`);
+  }
+  // The gateway addresses that sign inputs and decryptions are read from the verifier contracts
+  const [kmsVerifier, inputVerifier] = await Promise.all([
+    contracts.KMSVerifier.create(readOnly, metadata.KMSVerifierAddress),
+    contracts.InputVerifier.create(readOnly, metadata.InputVerifierAddress)
+  ]);
+  return MockFhevmInstance.create(node, readOnly, {
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: kmsVerifier.gatewayDecryptionAddress,
+    verifyingContractAddressInputVerification: inputVerifier.gatewayInputVerificationAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId
+  });
+}
+
+export async function getFhevmInstance(): Promise<FhevmInstance> {
+  const chainId = getActiveChainId();
+  // The relayer serves Sepolia; a local hardhat node runs the mock coprocessor instead
+  if (chainId !== SepoliaConfig.chainId && chainId !== HARDHAT_CHAIN_ID) {
+    throw new Error(`FHE encryption is not available on chain ${chainId}; switch to Sepolia or a local hardhat node`);
+  }
+  let instance = instances.get(chainId);
+  if (!instance) {
+    instance = chainId === HARDHAT_CHAIN_ID
+      ? createMockInstance(chainId)
+      : (async () => {
+          if (!window.ethereum) {
+            throw new Error("No injected wallet");
+          }
+          await initSDK();
+          return createInstance({ ...SepoliaConfig, network: window.ethereum as any });
+        })();
+    instances.set(chainId, instance);
+    // Allow a later call to retry if the relayer, the node or WASM init failed
+    instance.catch(() => { instances.delete(chainId); });
+  }
+  return instance;
+}
+
+// Packs values into one encrypted input for DavAccessNFT_FHE; all handles share one proof
+async function encryptUint32Values(userAddress: string, values: number[]) {
+  const contractAddress = getDavAccessNFTAddress();
+  const instance = await getFhevmInstance();
+
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  for (const value of values) {
+    input.add32(Math.round(value));
+  }
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    contractAddress,
+    handles: handles.map(handle => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export async function encryptPreferences(userAddress: string, preferences: PreferenceValues): Promise<EncryptedPreferences> {
+  const { contractAddress, handles, inputProof } = await encryptUint32Values(userAddress, PREFERENCE_KEYS.map(key => preferences[key]));
+
+  const handleMap = {} as Record<PreferenceKey, string>;
+  PREFERENCE_KEYS.forEach((key, i) => { handleMap[key] = handles[i]; });
+
+  return { contractAddress, userAddress, handles: handleMap, inputProof };
+}
+
+export async function encryptProviderPreferences(providerAddress: string, values: ProviderPreferenceValues): Promise<EncryptedProviderPreferences> {
+  const { handles, inputProof } = await encryptUint32Values(providerAddress, [values.drivingStyle, values.routePreference, values.comfortLevel]);
+  return { handles: [handles[0], handles[1], handles[2]], inputProof };
+}
+
+export async function encryptAccessScore(providerAddress: string, score: number): Promise<EncryptedAccessScore> {
+  const { handles, inputProof } = await encryptUint32Values(providerAddress, [score]);
+  return { handle: handles[0], inputProof };
+}
+
+export async function encryptThreshold(ownerAddress: string, threshold: number): Promise<EncryptedThreshold> {
+  const { handles, inputProof } = await encryptUint32Values(ownerAddress, [threshold]);
+  return { handle: handles[0], inputProof };
+}
+
+export function shortHandle(handle: string) {
+  return handle && handle.length > 18 ? `${handle.slice(0, 10)}…${handle.slice(-6)}` : handle;
+}
+
+// EIP-712 payload in the shape wagmi's signTypedData expects (EIP712Domain is derived by the signer)
+export interface TypedDataRequest {
+  domain: EIP712["domain"];
+  types: Record<string, EIP712Type[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+export type SignTypedData = (request: TypedDataRequest) => Promise<string>;
+
+export interface DecryptionSession {
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export type DecryptedValue = bigint | boolean | string;
+
+// Validity window of a user-decrypt signature
+export const DECRYPTION_DURATION_DAYS = 1;
+
+export async function createDecryptionSession(userAddress: string, contractAddresses: string[], signTypedData: SignTypedData): Promise<DecryptionSession> {
+  const instance = await getFhevmInstance();
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+
+  const eip712 = instance.createEIP712(publicKey, contractAddresses, startTimestamp, DECRYPTION_DURATION_DAYS);
+  const { EIP712Domain, ...types } = eip712.types;
+  const signature = await signTypedData({
+    domain: eip712.domain,
+    types,
+    primaryType: eip712.primaryType,
+    message: eip712.message
+  });
+
+  return {
+    userAddress,
+    contractAddresses,
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays: DECRYPTION_DURATION_DAYS
+  };
+}
+
+export function sessionExpiresAt(session: DecryptionSession): number {
+  return (session.startTimestamp + session.durationDays * 24 * 60 * 60) * 1000;
+}
+
+export function isSessionValid(session: DecryptionSession | null, userAddress?: string, contractAddress?: string): session is DecryptionSession {
+  if (!session || Date.now() >= sessionExpiresAt(session)) return false;
+  if (userAddress && session.userAddress.toLowerCase() !== userAddress.toLowerCase()) return false;
+  if (contractAddress && !session.contractAddresses.some(c => c.toLowerCase() === contractAddress.toLowerCase())) return false;
+  return true;
+}
+
+export async function userDecryptHandles(session: DecryptionSession, handles: string[], contractAddress: string): Promise<Record<string, DecryptedValue>> {
+  const instance = await getFhevmInstance();
+  return instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature,
+    session.contractAddresses,
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays
+  );
+}
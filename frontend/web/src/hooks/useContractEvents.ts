@@ -0,0 +1,99 @@
+// hooks/useContractEvents.ts
+import { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { useConfig } from "wagmi";
+import { watchContractEvent } from "wagmi/actions";
+import { DAV_ACCESS_ABI } from "../accessNft";
+import { ABI as ADAPTER_ABI, getContractAddress, getReadOnlyProvider } from "../contract";
+import { decodeContractEvent, eventKey } from "../events";
+import type { ContractEvent, EventSource, RawLog } from "../events";
+
+// Keys of recently delivered events kept for dedupe
+const SEEN_LIMIT = 500;
+
+interface WatchedContract {
+  source: EventSource;
+  address: string;
+  abi: any;
+}
+
+const ABIS: Record<EventSource, any> = { DavAccessNFT_FHE: DAV_ACCESS_ABI, UniversalAdapter: ADAPTER_ABI };
+
+// Contracts without an address on this chain are skipped
+function watchedContracts(chainId: number): WatchedContract[] {
+  const contracts: WatchedContract[] = [];
+  for (const source of Object.keys(ABIS) as EventSource[]) {
+    try {
+      contracts.push({ source, address: getContractAddress(source, chainId), abi: ABIS[source] });
+    } catch (e) {
+      console.warn(`Not watching ${source}:`, e);
+    }
+  }
+  return contracts;
+}
+
+const fromEthersLog = (log: ethers.Log): RawLog => ({
+  topics: log.topics,
+  data: log.data,
+  transactionHash: log.transactionHash,
+  logIndex: log.index,
+  blockNumber: log.blockNumber
+});
+
+// Streams decoded DavAccessNFT_FHE and UniversalAdapter events on chainId as they are mined.
+// wagmi's transport and the read-only ethers provider both feed it; each log is delivered once.
+export function useContractEvents(chainId: number, onEvent: (event: ContractEvent) => void) {
+  const wagmiConfig = useConfig();
+  const [isLive, setIsLive] = useState(false);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  });
+
+  useEffect(() => {
+    const contracts = watchedContracts(chainId);
+    const seen = new Set<string>();
+    const deliver = (source: EventSource, log: RawLog) => {
+      const event = decodeContractEvent(source, log);
+      if (!event) return;
+      const key = eventKey(event);
+      if (seen.has(key)) return;
+      seen.add(key);
+      if (seen.size > SEEN_LIMIT) seen.delete(seen.values().next().value!);
+      onEventRef.current(event);
+    };
+
+    const unwatchers = contracts.map(({ source, address, abi }) => watchContractEvent(wagmiConfig, {
+      chainId,
+      address: address as `0x${string}`,
+      abi,
+      onLogs: logs => logs.forEach(log => deliver(source, log)),
+      onError: e => console.warn(`wagmi event watch on ${source} failed:`, e)
+    }));
+    setIsLive(contracts.length > 0);
+
+    let disposed = false;
+    const ethersContracts: ethers.Contract[] = [];
+    getReadOnlyProvider(chainId)
+      .then(provider => {
+        if (disposed) return;
+        for (const { source, address, abi } of contracts) {
+          const contract = new ethers.Contract(address, abi, provider);
+          // The wildcard listener receives the event payload as its last argument
+          contract.on("*", (...args: any[]) => deliver(source, fromEthersLog((args[args.length - 1] as ethers.ContractEventPayload).log)));
+          ethersContracts.push(contract);
+        }
+      })
+      .catch(e => console.warn("ethers event subscription failed:", e));
+
+    return () => {
+      disposed = true;
+      unwatchers.forEach(unwatch => unwatch());
+      ethersContracts.forEach(contract => contract.removeAllListeners());
+      setIsLive(false);
+    };
+  }, [wagmiConfig, chainId]);
+
+  return { isLive };
+}
@@ -0,0 +1,22 @@
+// hooks/useTransactions.ts
+import { useEffect, useState } from "react";
+import { getTransactions, resumeTransactions, subscribeTransactions } from "../transactions";
+import type { TrackedTx } from "../transactions";
+
+let resumed = false;
+
+// Tracked transactions, newest first; ones left pending by a previous page load are picked up once
+export function useTransactions(): TrackedTx[] {
+  const [transactions, setTransactions] = useState(getTransactions);
+
+  useEffect(() => {
+    const unsubscribe = subscribeTransactions(setTransactions);
+    if (!resumed) {
+      resumed = true;
+      resumeTransactions();
+    }
+    return unsubscribe;
+  }, []);
+
+  return [...transactions].sort((a, b) => b.submittedAt - a.submittedAt);
+}
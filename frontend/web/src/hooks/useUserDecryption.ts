@@ -0,0 +1,71 @@
+// hooks/useUserDecryption.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAccount, useSignTypedData } from "wagmi";
+import {
+  createDecryptionSession,
+  isSessionValid,
+  sessionExpiresAt,
+  userDecryptHandles
+} from "../fhevm";
+import type { DecryptedValue, DecryptionSession, TypedDataRequest } from "../fhevm";
+
+// Holds one EIP-712 user-decrypt signature per wallet and caches what it decrypted.
+// Everything is dropped when the account changes or the signature expires.
+export function useUserDecryption() {
+  const { address } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const [session, setSession] = useState<DecryptionSession | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const cacheRef = useRef(new Map<string, DecryptedValue>());
+
+  const clear = useCallback(() => {
+    cacheRef.current.clear();
+    setSession(null);
+  }, []);
+
+  useEffect(() => {
+    clear();
+  }, [address, clear]);
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(clear, Math.max(sessionExpiresAt(session) - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [session, clear]);
+
+  const decrypt = useCallback(async (handles: string[], contractAddress: string): Promise<Record<string, DecryptedValue>> => {
+    if (!address) throw new Error("Please connect wallet first");
+    setIsDecrypting(true);
+    try {
+      let active = session;
+      if (!isSessionValid(active, address, contractAddress)) {
+        cacheRef.current.clear();
+        active = await createDecryptionSession(address, [contractAddress], (request: TypedDataRequest) =>
+          signTypedDataAsync(request as Parameters<typeof signTypedDataAsync>[0])
+        );
+        setSession(active);
+      }
+
+      const missing = handles.filter(handle => !cacheRef.current.has(handle));
+      if (missing.length > 0) {
+        const decrypted = await userDecryptHandles(active, missing, contractAddress);
+        for (const handle of missing) {
+          const value = decrypted[handle] ?? decrypted[handle.toLowerCase()];
+          if (value !== undefined) cacheRef.current.set(handle, value);
+        }
+      }
+
+      const result: Record<string, DecryptedValue> = {};
+      for (const handle of handles) {
+        const value = cacheRef.current.get(handle);
+        if (value === undefined) throw new Error(`Relayer returned no value for handle ${handle}`);
+        result[handle] = value;
+      }
+      return result;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [address, session, signTypedDataAsync]);
+
+  return { decrypt, isDecrypting, session, clear };
+}
@@ -0,0 +1,72 @@
+// indexer.ts
+import { config, getActiveChainId } from "./contract";
+
+// Mirrors the JSON returned by the indexer service in /indexer
+export interface IndexedRecord {
+  tokenId: string;
+  holder: string;
+  vehicleId: string;
+  permanent: boolean;
+  revoked: boolean;
+  mintedBlock: number;
+}
+
+export interface TimelineEntry {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  name: string;
+  args: Record<string, string | boolean>;
+}
+
+export interface DecryptionStatus {
+  requestId: string;
+  batchId: string;
+  stateHash: string;
+  status: "pending" | "completed";
+  requestedBlock: number;
+  completedBlock: number | null;
+  accessGranted: boolean | null;
+}
+
+const REQUEST_TIMEOUT_MS = 3000;
+// After a failed request the indexer is skipped for this long and reads go straight to the contract
+const RETRY_AFTER_MS = 30000;
+
+// Keyed by indexer URL
+const unavailableUntil = new Map<string, number>();
+
+// Each indexer follows one chain, so a chain without its own indexerUrl is read from the contracts
+function indexerUrl(chainId: number): string | null {
+  const url = config.chains[String(chainId)]?.indexerUrl;
+  return url ? url.replace(/\/$/, "") : null;
+}
+
+// Resolves to null whenever the chain has no indexer or it is not reachable, so callers can fall back
+async function fetchIndexer<T>(path: string, chainId: number): Promise<T | null> {
+  const base = indexerUrl(chainId);
+  if (!base || Date.now() < (unavailableUntil.get(base) ?? 0)) return null;
+
+  try {
+    const response = await fetch(`${base}${path}`, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Indexer responded ${response.status}`);
+    return await response.json() as T;
+  } catch (e) {
+    console.warn("Indexer unavailable, reading from the contract:", e);
+    unavailableUntil.set(base, Date.now() + RETRY_AFTER_MS);
+    return null;
+  }
+}
+
+export function fetchIndexedRecords(holder: string, chainId = getActiveChainId()) {
+  return fetchIndexer<IndexedRecord[]>(`/records/${holder}`, chainId);
+}
+
+export function fetchBatchTimeline(batchId: bigint, chainId = getActiveChainId()) {
+  return fetchIndexer<TimelineEntry[]>(`/batches/${batchId}/timeline`, chainId);
+}
+
+export function fetchDecryptionStatus(requestId: bigint, chainId = getActiveChainId()) {
+  return fetchIndexer<DecryptionStatus>(`/decryptions/${requestId}`, chainId);
+}
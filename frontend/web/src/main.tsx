@@ -5,16 +5,16 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+import type { Chain } from 'wagmi/chains';
+import { APP_CONFIG, CONFIG_ERRORS } from './appConfig';
+import { SUPPORTED_CHAIN_IDS } from './contract';
 import { BrowserRouter } from 'react-router-dom';
+import './App.css';
 
-const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
-
-const config = getDefaultConfig({
-  appName: '',
-  projectId: projectId,
-  chains: [sepolia],
-});
+// Only chains with a deployment in config.json are offered to the wallet
+const KNOWN_CHAINS: Chain[] = [sepolia, hardhat];
+const chains = KNOWN_CHAINS.filter(chain => SUPPORTED_CHAIN_IDS.includes(chain.id));
 
 const queryClient = new QueryClient();
 
@@ -116,16 +116,38 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   );
 };
 
-createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <WagmiConfig config={config}>
-        <BrowserRouter>
-          <AdaptiveThemeProvider>
-            <App />
-          </AdaptiveThemeProvider>
-        </BrowserRouter>
-      </WagmiConfig>
-    </QueryClientProvider>
-  </React.StrictMode>
-);
\ No newline at end of file
+// Shown instead of the app when the VITE_* environment is incomplete
+const ConfigErrorScreen: React.FC<{ errors: string[] }> = ({ errors }) => (
+  <div className="loading-screen hud-theme">
+    <p>The app is not configured for this deployment</p>
+    {errors.map(error => <div key={error} className="hud-status">{error}</div>)}
+    <div className="hud-status">See frontend/web/.env.example</div>
+  </div>
+);
+
+const root = createRoot(document.getElementById('root')!);
+
+if (CONFIG_ERRORS.length > 0) {
+  root.render(<ConfigErrorScreen errors={CONFIG_ERRORS} />);
+} else {
+  // getDefaultConfig throws without a WalletConnect projectId, so it only runs once the config is valid
+  const config = getDefaultConfig({
+    appName: '',
+    projectId: APP_CONFIG.walletConnectProjectId,
+    chains: chains as [Chain, ...Chain[]],
+  });
+
+  root.render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <WagmiConfig config={config}>
+          <BrowserRouter>
+            <AdaptiveThemeProvider>
+              <App />
+            </AdaptiveThemeProvider>
+          </BrowserRouter>
+        </WagmiConfig>
+      </QueryClientProvider>
+    </React.StrictMode>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,56 @@
+// multicall.ts
+import { ethers } from "ethers";
+
+// Multicall3 lives at the same address on Sepolia and most public chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+export interface Call {
+  target: string;
+  callData: string;
+}
+
+export interface CallResult {
+  success: boolean;
+  returnData: string;
+}
+
+const availability = new WeakMap<ethers.Provider, Promise<boolean>>();
+
+function isMulticallAvailable(provider: ethers.Provider): Promise<boolean> {
+  let available = availability.get(provider);
+  if (!available) {
+    // A failed check (an RPC error, or too few endpoints for the pool's quorum) is not cached, so the
+    // next batch asks again; this one falls back to individual eth_calls
+    available = provider.getCode(MULTICALL3_ADDRESS).then(
+      code => code !== "0x",
+      () => {
+        availability.delete(provider);
+        return false;
+      }
+    );
+    availability.set(provider, available);
+  }
+  return available;
+}
+
+// Runs all calls in one eth_call; a reverting call only fails its own result.
+// Chains without Multicall3 (e.g. a bare local node) fall back to one eth_call per call, sent in parallel.
+export async function aggregate(provider: ethers.Provider, calls: Call[]): Promise<CallResult[]> {
+  if (calls.length === 0) return [];
+
+  if (await isMulticallAvailable(provider)) {
+    const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+    const results = await multicall.aggregate3.staticCall(calls.map(call => ({ ...call, allowFailure: true })));
+    return results.map((result: CallResult) => ({ success: result.success, returnData: result.returnData }));
+  }
+
+  return Promise.all(calls.map(call =>
+    provider.call({ to: call.target, data: call.callData })
+      .then(returnData => ({ success: true, returnData }))
+      .catch(() => ({ success: false, returnData: "0x" }))
+  ));
+}
@@ -0,0 +1,93 @@
+// records.ts
+import { ethers } from "ethers";
+import { getAccessNftReadOnly, toAccessTokenInfo } from "./accessNft";
+import type { AccessTokenInfo } from "./accessNft";
+import { fetchIndexedRecords } from "./indexer";
+import { normAddr } from "./contract";
+import { aggregate } from "./multicall";
+
+// One DavAccessNFT_FHE token held by the connected wallet
+export interface DAVRecord {
+  id: string;
+  encryptedData: string;
+  timestamp: number;
+  owner: string;
+  vehicleId: string;
+  accessType: "temporary" | "permanent";
+  status: "active" | "expired" | "revoked";
+  // Ciphertext handles keyed by preference name
+  preferences: Record<string, string>;
+}
+
+export const toRecord = (token: AccessTokenInfo): DAVRecord => ({
+  id: token.tokenId.toString(),
+  encryptedData: JSON.stringify({ contractAddress: token.contractAddress, handles: token.handles }),
+  timestamp: token.mintedAt,
+  owner: token.holder,
+  vehicleId: token.vehicleId,
+  accessType: token.accessType,
+  status: token.status,
+  preferences: token.handles
+});
+
+// Records read per multicall; each record costs three calls
+export const RECORD_PAGE_SIZE = 50;
+
+const RECORD_CALLS = ["ownerOf", "accessTokens", "getTokenPreferences"] as const;
+
+export interface RecordLoadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface RecordList {
+  records: DAVRecord[];
+  // Tokens whose reads reverted or could not be decoded; the rest of the list still loads
+  failedIds: bigint[];
+}
+
+export async function loadRecordPage(contract: ethers.Contract, tokenIds: bigint[]): Promise<RecordList> {
+  const target = await contract.getAddress();
+  const calls = tokenIds.flatMap(tokenId => RECORD_CALLS.map(fn => ({
+    target,
+    callData: contract.interface.encodeFunctionData(fn, [tokenId])
+  })));
+  const results = await aggregate(contract.runner!.provider!, calls);
+
+  const page: RecordList = { records: [], failedIds: [] };
+  tokenIds.forEach((tokenId, i) => {
+    const slice = results.slice(i * RECORD_CALLS.length, (i + 1) * RECORD_CALLS.length);
+    try {
+      if (!slice.every(result => result.success)) throw new Error("call reverted");
+      const [[holder], token, prefs] = RECORD_CALLS.map((fn, j) => contract.interface.decodeFunctionResult(fn, slice[j].returnData));
+      page.records.push(toRecord(toAccessTokenInfo(tokenId, holder, token, prefs, target)));
+    } catch (e) {
+      console.warn(`Could not load record ${tokenId}:`, e);
+      page.failedIds.push(tokenId);
+    }
+  });
+  return page;
+}
+
+// The access NFT is the record registry: only a token's holder can move it, so there is no shared index to race on
+export async function listRecordsOf(holder: string, onProgress?: (progress: RecordLoadProgress) => void): Promise<RecordList> {
+  const contract = await getAccessNftReadOnly();
+  // The indexer trails the chain by its poll interval and confirmations, so tokens minted or received
+  // since then come from recordsOf; tokens it still lists after they moved away are dropped by owner below
+  const [indexed, onChain] = await Promise.all([fetchIndexedRecords(holder), contract.recordsOf(holder) as Promise<bigint[]>]);
+  const tokenIds = [...new Set([...(indexed ?? []).map(record => BigInt(record.tokenId)), ...onChain])];
+
+  const list: RecordList = { records: [], failedIds: [] };
+  onProgress?.({ loaded: 0, total: tokenIds.length });
+  for (let start = 0; start < tokenIds.length; start += RECORD_PAGE_SIZE) {
+    const pageIds = tokenIds.slice(start, start + RECORD_PAGE_SIZE);
+    const page = await loadRecordPage(contract, pageIds).catch((e): RecordList => {
+      console.warn("Could not load record page:", e);
+      return { records: [], failedIds: pageIds };
+    });
+    list.records.push(...page.records.filter(record => normAddr(record.owner) === normAddr(holder)));
+    list.failedIds.push(...page.failedIds);
+    onProgress?.({ loaded: start + pageIds.length, total: tokenIds.length });
+  }
+  return list;
+}
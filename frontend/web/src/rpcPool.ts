@@ -0,0 +1,291 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+import { APP_CONFIG, getRpcUrls } from "./appConfig";
+
+const REQUEST_TIMEOUT_MS = 10000;
+const PROBE_INTERVAL_MS = 15000;
+// Outcomes per endpoint that the error rate is computed over
+const OUTCOME_WINDOW = 20;
+const DOWN_AFTER_FAILURES = 3;
+const MAX_LAG_BLOCKS = 5;
+// Endpoints that must agree on critical reads unless the chain's config says otherwise; never more
+// than the chain has URLs, so a single URL saved from the RPC settings is trusted on its own
+const DEFAULT_QUORUM = 2;
+// Reads whose answer decides what the app trusts, e.g. whether a contract exists at all
+const CRITICAL_METHODS = new Set(["getCode"]);
+
+// failing: the last request failed; down: DOWN_AFTER_FAILURES in a row failed
+export type EndpointState = "unknown" | "healthy" | "lagging" | "failing" | "down";
+
+export interface EndpointStatus {
+  url: string;
+  state: EndpointState;
+  latencyMs: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  lag: number | null;
+  lastError: string | null;
+  checkedAt: number | null;
+}
+
+export interface QuorumStatus {
+  required: number;
+  healthy: number;
+}
+
+const STATE_RANK: Record<EndpointState, number> = { healthy: 0, unknown: 1, lagging: 2, failing: 3, down: 4 };
+
+// A revert is the same answer on every node, so it says nothing about the endpoint
+const isEndpointFault = (e: unknown) => !ethers.isError(e, "CALL_EXCEPTION");
+
+class Endpoint {
+  readonly provider: ethers.JsonRpcApiProvider;
+  // The same endpoint for quorum members, with every request recorded by run()
+  readonly tracked: TrackedProvider;
+  latencyMs: number | null = null;
+  blockNumber: number | null = null;
+  lastError: string | null = null;
+  checkedAt: number | null = null;
+  failureStreak = 0;
+  private outcomes: boolean[] = [];
+
+  constructor(readonly url: string, network: ethers.Network) {
+    this.provider = url.startsWith("ws")
+      ? new ethers.WebSocketProvider(url, network, { staticNetwork: network })
+      : new ethers.JsonRpcProvider(url, network, { staticNetwork: network });
+    this.tracked = new TrackedProvider(this, network);
+  }
+
+  get errorRate(): number {
+    return this.outcomes.length === 0 ? 0 : this.outcomes.filter(ok => !ok).length / this.outcomes.length;
+  }
+
+  // Times one request and records how the endpoint did
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const result = await Promise.race([
+        request(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("RPC timeout")), REQUEST_TIMEOUT_MS);
+        })
+      ]);
+      this.record(true, Date.now() - started);
+      return result;
+    } catch (e) {
+      this.record(!isEndpointFault(e), Date.now() - started, e);
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private record(ok: boolean, elapsedMs: number, error?: unknown) {
+    this.checkedAt = Date.now();
+    this.outcomes.push(ok);
+    if (this.outcomes.length > OUTCOME_WINDOW) this.outcomes.shift();
+    if (ok) {
+      this.failureStreak = 0;
+      this.latencyMs = this.latencyMs === null ? elapsedMs : Math.round(this.latencyMs * 0.7 + elapsedMs * 0.3);
+    } else {
+      this.failureStreak++;
+      this.lastError = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+class TrackedProvider extends ethers.AbstractProvider {
+  constructor(private readonly endpoint: Endpoint, private readonly staticNetwork: ethers.Network) {
+    super(staticNetwork);
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    return this.staticNetwork;
+  }
+
+  async _perform<T = any>(req: ethers.PerformActionRequest): Promise<T> {
+    return this.endpoint.run(() => this.endpoint.provider._perform(req));
+  }
+}
+
+class RpcPool {
+  readonly endpoints: Endpoint[];
+  private readonly timer: ReturnType<typeof setInterval>;
+  // Endpoint states are unknown until the first probe has answered
+  private readonly firstProbe: Promise<void>;
+  // Kept until the set of healthy endpoints changes
+  private voters: { key: string; provider: ethers.FallbackProvider } | null = null;
+
+  constructor(readonly urls: string[], readonly network: ethers.Network, readonly requiredVotes: number) {
+    this.endpoints = urls.map(url => new Endpoint(url, network));
+    this.firstProbe = this.probe();
+    this.timer = setInterval(() => this.probe(), PROBE_INTERVAL_MS);
+  }
+
+  private head(): number | null {
+    const heights = this.endpoints.map(e => e.blockNumber).filter((n): n is number => n !== null);
+    return heights.length > 0 ? Math.max(...heights) : null;
+  }
+
+  private lag(endpoint: Endpoint): number | null {
+    const head = this.head();
+    return head === null || endpoint.blockNumber === null ? null : head - endpoint.blockNumber;
+  }
+
+  private state(endpoint: Endpoint): EndpointState {
+    if (endpoint.checkedAt === null) return "unknown";
+    if (endpoint.failureStreak >= DOWN_AFTER_FAILURES) return "down";
+    if (endpoint.failureStreak > 0) return "failing";
+    if ((this.lag(endpoint) ?? 0) > MAX_LAG_BLOCKS) return "lagging";
+    return "healthy";
+  }
+
+  // Healthiest first; down endpoints stay at the back as a last resort
+  private ranked(): Endpoint[] {
+    const score = (e: Endpoint) =>
+      e.errorRate * 10000 + (this.lag(e) ?? 0) * 500 + (e.latencyMs ?? REQUEST_TIMEOUT_MS);
+    return [...this.endpoints].sort((a, b) =>
+      STATE_RANK[this.state(a)] - STATE_RANK[this.state(b)] || score(a) - score(b));
+  }
+
+  private healthy(): Endpoint[] {
+    return this.ranked().filter(e => this.state(e) === "healthy");
+  }
+
+  // Only healthy endpoints vote, so one dead endpoint cannot block a critical read. Fewer healthy
+  // endpoints than the quorum fails the read rather than trusting a smaller number of them.
+  private async quorum(): Promise<ethers.FallbackProvider> {
+    await this.firstProbe;
+    const members = this.healthy();
+    if (members.length < this.requiredVotes) {
+      throw new Error(
+        `${this.requiredVotes} healthy RPC endpoints must agree on this read, ${members.length} available. ` +
+        "Add endpoints from the RPC button."
+      );
+    }
+    const key = members.map(e => e.url).join(",");
+    if (this.voters?.key !== key) {
+      this.voters?.provider.destroy();
+      this.voters = {
+        key,
+        provider: new ethers.FallbackProvider(
+          members.map((e, i) => ({ provider: e.tracked, priority: i + 1, weight: 1 })),
+          this.network,
+          { quorum: this.requiredVotes }
+        )
+      };
+    }
+    return this.voters.provider;
+  }
+
+  // Tries endpoints from healthiest to least healthy, moving on when one fails
+  async perform(req: ethers.PerformActionRequest): Promise<any> {
+    if (CRITICAL_METHODS.has(req.method)) return (await this.quorum())._perform(req);
+
+    let lastError: unknown;
+    for (const endpoint of this.ranked()) {
+      try {
+        const result = await endpoint.run(() => endpoint.provider._perform(req));
+        if (req.method === "getBlockNumber") endpoint.blockNumber = Number(result);
+        return result;
+      } catch (e) {
+        if (!isEndpointFault(e)) throw e;
+        lastError = e;
+      }
+    }
+    throw lastError;
+  }
+
+  async probe() {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      try {
+        endpoint.blockNumber = await endpoint.run(() => endpoint.provider.getBlockNumber());
+      } catch {
+        // run() has already recorded the failure on the endpoint
+      }
+    }));
+  }
+
+  statuses(): EndpointStatus[] {
+    return this.endpoints.map(e => ({
+      url: e.url,
+      state: this.state(e),
+      latencyMs: e.latencyMs,
+      errorRate: e.errorRate,
+      blockNumber: e.blockNumber,
+      lag: this.lag(e),
+      lastError: e.lastError,
+      checkedAt: e.checkedAt
+    }));
+  }
+
+  quorumStatus(): QuorumStatus {
+    return { required: this.requiredVotes, healthy: this.healthy().length };
+  }
+
+  destroy() {
+    clearInterval(this.timer);
+    this.voters?.provider.destroy();
+    this.endpoints.forEach(e => e.provider.destroy());
+  }
+}
+
+const pools = new Map<number, RpcPool>();
+
+// The pool is rebuilt when the chain's URL list changes, e.g. after the user saves an override
+function poolFor(chainId: number): RpcPool {
+  const urls = getRpcUrls(chainId);
+  if (urls.length === 0) {
+    throw new Error(`No RPC URLs configured for chain ${chainId}`);
+  }
+  const existing = pools.get(chainId);
+  if (existing && existing.urls.join(",") === urls.join(",")) return existing;
+
+  existing?.destroy();
+  const chain = APP_CONFIG.chains[String(chainId)];
+  const name = chain?.name ?? `chain-${chainId}`;
+  const requiredVotes = Math.min(chain?.quorum ?? DEFAULT_QUORUM, urls.length);
+  const pool = new RpcPool(urls, ethers.Network.from({ name, chainId }), requiredVotes);
+  pools.set(chainId, pool);
+  return pool;
+}
+
+// Read-only provider that sends every request through the chain's pool, so it fails over mid-session
+class PooledProvider extends ethers.AbstractProvider {
+  constructor(private readonly chainId: number, private readonly staticNetwork: ethers.Network) {
+    super(staticNetwork);
+  }
+
+  async _detectNetwork(): Promise<ethers.Network> {
+    return this.staticNetwork;
+  }
+
+  async _perform<T = any>(req: ethers.PerformActionRequest): Promise<T> {
+    return poolFor(this.chainId).perform(req);
+  }
+}
+
+const providers = new Map<number, PooledProvider>();
+
+export function getPooledProvider(chainId: number): ethers.AbstractProvider {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    const { network } = poolFor(chainId);
+    provider = new PooledProvider(chainId, network);
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
+
+export function getEndpointStatuses(chainId: number): EndpointStatus[] {
+  return poolFor(chainId).statuses();
+}
+
+export function getQuorumStatus(chainId: number): QuorumStatus {
+  return poolFor(chainId).quorumStatus();
+}
+
+export function probeEndpoints(chainId: number): Promise<void> {
+  return poolFor(chainId).probe();
+}
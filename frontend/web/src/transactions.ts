@@ -0,0 +1,209 @@
+// transactions.ts
+import { ethers } from "ethers";
+import { APP_CONFIG } from "./appConfig";
+import { getReadOnlyProvider } from "./contract";
+import { describeContractError } from "./contractErrors";
+
+// pending -> mined -> confirmed, or replaced / cancelled / failed along the way;
+// unknown when counting confirmations broke off, e.g. because the block was reorganised away
+export type TxState = "pending" | "mined" | "confirmed" | "replaced" | "cancelled" | "failed" | "unknown";
+
+export interface TrackedTx {
+  hash: string;
+  chainId: number;
+  label: string;
+  from: string;
+  nonce: number;
+  state: TxState;
+  submittedAt: number;
+  blockNumber: number | null;
+  confirmations: number;
+  // Hash of the transaction that took this one's nonce
+  replacedBy: string | null;
+  error: string | null;
+}
+
+const STORAGE_KEY = "davAccess.transactions";
+// Finished transactions are dropped oldest first beyond this
+const MAX_TRACKED = 20;
+const DEFAULT_CONFIRMATIONS = 2;
+
+let transactions: TrackedTx[] = loadTransactions();
+const listeners = new Set<(txs: TrackedTx[]) => void>();
+
+function loadTransactions(): TrackedTx[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+const isFinished = (tx: TrackedTx) => tx.state !== "pending" && tx.state !== "mined";
+
+function publish(next: TrackedTx[]) {
+  const excess = next.length - MAX_TRACKED;
+  if (excess > 0) {
+    const dropped = new Set(next.filter(isFinished).slice(0, excess).map(tx => tx.hash));
+    next = next.filter(tx => !dropped.has(tx.hash));
+  }
+  transactions = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  listeners.forEach(listener => listener(transactions));
+}
+
+function update(hash: string, patch: Partial<TrackedTx>) {
+  publish(transactions.map(tx => tx.hash === hash ? { ...tx, ...patch } : tx));
+}
+
+export function getTransactions(): TrackedTx[] {
+  return transactions;
+}
+
+export function subscribeTransactions(listener: (txs: TrackedTx[]) => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function dismissTransaction(hash: string) {
+  publish(transactions.filter(tx => tx.hash !== hash));
+}
+
+export function confirmationsFor(chainId: number): number {
+  return APP_CONFIG.chains[String(chainId)]?.confirmations ?? DEFAULT_CONFIRMATIONS;
+}
+
+// A mined receipt carries no revert data, so the call is replayed on the state it ran against
+async function revertReason(tx: ethers.TransactionResponse, receipt: ethers.TransactionReceipt): Promise<string> {
+  try {
+    const provider = await getReadOnlyProvider(Number(tx.chainId));
+    await provider.call({ to: tx.to, from: tx.from, data: tx.data, value: tx.value, blockTag: receipt.blockNumber - 1 });
+  } catch (e) {
+    return describeContractError(e);
+  }
+  return "Transaction reverted";
+}
+
+async function follow(tx: ethers.TransactionResponse, label: string): Promise<ethers.TransactionReceipt> {
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.wait(1);
+  } catch (e: any) {
+    if (ethers.isError(e, "TRANSACTION_REPLACED")) {
+      const replacement = e.replacement.hash;
+      if (e.cancelled) {
+        update(tx.hash, { state: "cancelled", replacedBy: replacement });
+        throw new Error(`${label} was cancelled by transaction ${replacement}`);
+      }
+      update(tx.hash, { state: "replaced", replacedBy: replacement });
+      // A repriced transaction is the same call with a higher fee, so it takes over the tracking
+      if (e.reason === "repriced") {
+        track(e.replacement, label);
+        return follow(e.replacement, label);
+      }
+      throw new Error(`${label} was replaced by transaction ${replacement}`);
+    }
+    if (ethers.isError(e, "CALL_EXCEPTION") && e.receipt) {
+      const reason = await revertReason(tx, e.receipt);
+      update(tx.hash, { state: "failed", blockNumber: e.receipt.blockNumber, error: reason });
+      throw new Error(`${label} failed: ${reason}`);
+    }
+    update(tx.hash, { state: "failed", error: await describeContractError(e) });
+    throw e;
+  }
+  if (!receipt) throw new Error(`${label} has no receipt`);
+
+  update(tx.hash, { state: "mined", blockNumber: receipt.blockNumber, confirmations: 1 });
+  const required = confirmationsFor(Number(tx.chainId));
+  if (required <= 1) {
+    update(tx.hash, { state: "confirmed" });
+  } else {
+    countConfirmations(tx.hash, Number(tx.chainId), required);
+  }
+  return receipt;
+}
+
+// Re-reads the receipt on every new block so the tray shows each confirmation as it arrives
+async function countConfirmations(hash: string, chainId: number, required: number) {
+  let provider: ethers.Provider;
+  try {
+    provider = await getReadOnlyProvider(chainId);
+  } catch (e) {
+    update(hash, { state: "unknown", error: `Could not count confirmations: ${(e as Error).message}` });
+    return;
+  }
+
+  let done = false;
+  const onBlock = async (blockNumber: number) => {
+    if (done) return;
+    try {
+      const receipt = await provider.getTransactionReceipt(hash);
+      if (done) return;
+      if (!receipt) {
+        done = true;
+        provider.off("block", onBlock);
+        update(hash, { state: "unknown", error: "The transaction is no longer in a block; the chain may have reorganised" });
+        return;
+      }
+      const confirmations = Math.max(1, blockNumber - receipt.blockNumber + 1);
+      if (confirmations >= required) {
+        done = true;
+        provider.off("block", onBlock);
+        update(hash, { state: "confirmed", blockNumber: receipt.blockNumber, confirmations: required });
+      } else if (transactions.find(tx => tx.hash === hash)?.confirmations !== confirmations) {
+        update(hash, { blockNumber: receipt.blockNumber, confirmations });
+      }
+    } catch (e) {
+      done = true;
+      provider.off("block", onBlock);
+      update(hash, { state: "unknown", error: `Could not count confirmations: ${(e as Error).message}` });
+    }
+  };
+  provider.on("block", onBlock);
+}
+
+function track(tx: ethers.TransactionResponse, label: string) {
+  publish([...transactions.filter(t => t.hash !== tx.hash), {
+    hash: tx.hash,
+    chainId: Number(tx.chainId),
+    label,
+    from: tx.from,
+    nonce: tx.nonce,
+    state: "pending",
+    submittedAt: Date.now(),
+    blockNumber: null,
+    confirmations: 0,
+    replacedBy: null,
+    error: null
+  }]);
+}
+
+// Records a broadcast transaction and resolves with its receipt once mined.
+// Confirmations keep being counted after that; a revert, replacement or cancellation rejects.
+export function trackTransaction(tx: ethers.TransactionResponse, label: string): Promise<ethers.TransactionReceipt> {
+  track(tx, label);
+  return follow(tx, label);
+}
+
+// Picks up transactions that were still pending or mined when the page was closed
+export async function resumeTransactions() {
+  for (const entry of transactions.filter(tx => !isFinished(tx))) {
+    try {
+      const provider = await getReadOnlyProvider(entry.chainId);
+      const [tx, blockNumber] = await Promise.all([provider.getTransaction(entry.hash), provider.getBlockNumber()]);
+      if (tx) {
+        // Failures end up on the tracked entry; nobody is awaiting the receipt after a reload
+        follow(tx.replaceableTransaction(entry.blockNumber ?? blockNumber), entry.label).catch(() => {});
+        continue;
+      }
+      // Gone from the node: another transaction used the nonce, or it was dropped before mining
+      const nonce = await provider.getTransactionCount(entry.from);
+      update(entry.hash, nonce > entry.nonce
+        ? { state: "replaced" }
+        : { state: "failed", error: "Dropped from the mempool" });
+    } catch (e) {
+      console.warn(`Could not resume tracking ${entry.hash}:`, e);
+    }
+  }
+}
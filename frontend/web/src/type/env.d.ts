@@ -0,0 +1,14 @@
+// src/type/env.d.ts
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_WALLETCONNECT_PROJECT_ID?: string;
+  // Comma-separated RPC URLs for one chain, e.g. VITE_RPC_URLS_11155111
+  readonly [key: `VITE_RPC_URLS_${number}`]: string | undefined;
+  // Event indexer for one chain, e.g. VITE_INDEXER_URL_31337
+  readonly [key: `VITE_INDEXER_URL_${number}`]: string | undefined;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,8 +1,35 @@
-import { defineConfig } from "vite";
+import fs from "fs";
+import path from "path";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// The relayer SDK's browser bundle, served from the installed npm package so index.html always loads
+// the version package.json pins, from the app's own origin. The bundle fetches its WASM and worker
+// files from the site root, so every file is served there.
+const RELAYER_SDK_DIR = path.resolve(__dirname, "node_modules/@zama-fhe/relayer-sdk/bundle");
+
+function relayerSdk(): Plugin {
+  const files = () => fs.readdirSync(RELAYER_SDK_DIR);
+  return {
+    name: "relayer-sdk",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const name = new URL(req.url ?? "/", "http://localhost").pathname.slice(1);
+        if (!files().includes(name)) return next();
+        res.setHeader("Content-Type", name.endsWith(".wasm") ? "application/wasm" : "text/javascript");
+        fs.createReadStream(path.join(RELAYER_SDK_DIR, name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of files()) {
+        this.emitFile({ type: "asset", fileName: name, source: fs.readFileSync(path.join(RELAYER_SDK_DIR, name)) });
+      }
+    }
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), relayerSdk()],
   define: {
     'process.env': process.env
   },
@@ -2,6 +2,10 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+import "dotenv/config";
+import { deployerAccounts } from "./tasks/accounts";
+import "./tasks/deployments";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -11,10 +15,14 @@ const config: HardhatUserConfig = {
     },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      // From DEPLOYER_MNEMONIC or DEPLOYER_KEYSTORE; see tasks/accounts.ts
+      accounts: deployerAccounts(),
     },
   },
+  namedAccounts: {
+    deployer: 0,
+  },
   solidity: {
     version: "0.8.24",
     settings: {
@@ -41,7 +49,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY ?? "",
     },
   },
   gasReporter: {
@@ -0,0 +1,50 @@
+// indexer/config.ts
+import path from "path";
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  davAccessNFTAddress: string;
+  universalAdapterAddress: string;
+  databasePath: string;
+  port: number;
+  // First block to scan when the database is empty
+  startBlock: number;
+  // Blocks behind the head that are left alone until they are this deep
+  confirmations: number;
+  // Upper bound on the block span of a single eth_getLogs request
+  maxBlockRange: number;
+  pollIntervalMs: number;
+}
+
+function readInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+function readAddress(env: NodeJS.ProcessEnv, name: string): string {
+  const value = env[name];
+  if (!value || !/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    throw new Error(`${name} must be set to a contract address`);
+  }
+  return value;
+}
+
+// Defaults target a local `npx hardhat node`
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  return {
+    rpcUrl: env.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    davAccessNFTAddress: readAddress(env, "INDEXER_DAV_ADDRESS"),
+    universalAdapterAddress: readAddress(env, "INDEXER_ADAPTER_ADDRESS"),
+    databasePath: env.INDEXER_DB_PATH || path.join(__dirname, "indexer.sqlite"),
+    port: readInt(env, "INDEXER_PORT", 8787),
+    startBlock: readInt(env, "INDEXER_START_BLOCK", 0),
+    confirmations: readInt(env, "INDEXER_CONFIRMATIONS", 0),
+    maxBlockRange: Math.max(1, readInt(env, "INDEXER_MAX_BLOCK_RANGE", 2000)),
+    pollIntervalMs: readInt(env, "INDEXER_POLL_INTERVAL_MS", 4000)
+  };
+}
@@ -0,0 +1,38 @@
+// indexer/index.ts
+import { ethers } from "ethers";
+import { loadConfig } from "./config";
+import { EventIndexer } from "./indexer";
+import { createServer } from "./server";
+import { EventStore } from "./store";
+
+function main() {
+  const config = loadConfig();
+  const store = new EventStore(config.databasePath);
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+
+  const indexer = new EventIndexer(provider, store, config);
+  indexer.start(config.pollIntervalMs);
+
+  const server = createServer(store);
+  server.listen(config.port, () => {
+    console.log(`Indexing ${config.rpcUrl} into ${config.databasePath}`);
+    console.log(`API listening on http://localhost:${config.port}`);
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      store.close();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+try {
+  main();
+} catch (e) {
+  console.error(e);
+  process.exit(1);
+}
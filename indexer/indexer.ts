@@ -0,0 +1,177 @@
+// indexer/indexer.ts
+import { ethers } from "ethers";
+import { DavAccessNFT_FHE__factory, UniversalAdapter__factory } from "../types";
+import type { Checkpoint, EventArgs, EventStore, IndexedEvent } from "./store";
+
+// Events the indexer follows on each contract
+export const DAV_EVENTS = [
+  "PreferencesSubmitted",
+  "AccessScoreUpdated",
+  "BatchOpened",
+  "BatchClosed",
+  "BatchFinalized",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "AccessMinted",
+  "AccessRevoked",
+  "Transfer"
+];
+export const ADAPTER_EVENTS = ["DataStored"];
+
+interface WatchedContract {
+  name: string;
+  address: string;
+  iface: ethers.Interface;
+  topics: string[];
+}
+
+export interface EventIndexerOptions {
+  davAccessNFTAddress: string;
+  universalAdapterAddress: string;
+  startBlock: number;
+  confirmations: number;
+  maxBlockRange: number;
+}
+
+function watch(name: string, address: string, iface: ethers.Interface, events: string[]): WatchedContract {
+  return { name, address: ethers.getAddress(address), iface, topics: events.map(event => iface.getEvent(event)!.topicHash) };
+}
+
+// Providers word "range too large" differently; all of these are answered by asking for fewer blocks
+const RANGE_TOO_LARGE = /too many results|more than \d+ results|block range|range (is )?too (large|wide)|limit exceeded|response size/i;
+
+function isRangeTooLarge(error: any): boolean {
+  const messages = [error?.message, error?.error?.message, error?.info?.error?.message];
+  return messages.some(message => typeof message === "string" && RANGE_TOO_LARGE.test(message));
+}
+
+// bigint arguments are kept as decimal strings so they survive JSON and SQLite
+function toEventArgs(parsed: ethers.LogDescription): EventArgs {
+  const args: EventArgs = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    const value = parsed.args[i];
+    args[input.name] = typeof value === "boolean" ? value : typeof value === "bigint" ? value.toString() : String(value);
+  });
+  return args;
+}
+
+export class EventIndexer {
+  private readonly contracts: WatchedContract[];
+  private timer: NodeJS.Timeout | null = null;
+  // Current getLogs span; halves on "too many results" and grows back towards maxBlockRange
+  private blockRange: number;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly store: EventStore,
+    private readonly options: EventIndexerOptions
+  ) {
+    this.contracts = [
+      watch("DavAccessNFT_FHE", options.davAccessNFTAddress, DavAccessNFT_FHE__factory.createInterface(), DAV_EVENTS),
+      watch("UniversalAdapter", options.universalAdapterAddress, UniversalAdapter__factory.createInterface(), ADAPTER_EVENTS)
+    ];
+    this.blockRange = options.maxBlockRange;
+  }
+
+  // Scans every confirmed block after the last checkpoint; returns the number of events stored
+  async syncOnce(): Promise<number> {
+    const head = await this.provider.getBlockNumber();
+    const target = head - this.options.confirmations;
+    let fromBlock = await this.resumeBlock();
+
+    let stored = 0;
+    while (fromBlock <= target) {
+      const toBlock = Math.min(target, fromBlock + this.blockRange - 1);
+      let range: { events: IndexedEvent[]; checkpoint: Checkpoint };
+      try {
+        range = await this.fetchRange(fromBlock, toBlock);
+      } catch (e) {
+        if (!isRangeTooLarge(e) || this.blockRange === 1) throw e;
+        this.blockRange = Math.max(1, Math.floor(this.blockRange / 2));
+        continue;
+      }
+
+      this.store.saveRange(range.events, range.checkpoint);
+      stored += range.events.length;
+      fromBlock = toBlock + 1;
+      this.blockRange = Math.min(this.options.maxBlockRange, this.blockRange * 2);
+    }
+    return stored;
+  }
+
+  // Verifies the stored tip is still canonical and rolls back to the newest checkpoint that is
+  private async resumeBlock(): Promise<number> {
+    const checkpoints = this.store.getCheckpoints();
+    if (checkpoints.length === 0) return this.options.startBlock;
+    if (await this.isCanonical(checkpoints[0])) return checkpoints[0].blockNumber + 1;
+
+    for (const checkpoint of checkpoints.slice(1)) {
+      if (await this.isCanonical(checkpoint)) {
+        console.warn(`Reorg below block ${checkpoints[0].blockNumber}, rolling back to ${checkpoint.blockNumber}`);
+        this.store.rollbackTo(checkpoint.blockNumber);
+        return checkpoint.blockNumber + 1;
+      }
+    }
+    console.warn(`Reorg deeper than ${checkpoints.length} checkpoints, reindexing from block ${this.options.startBlock}`);
+    this.store.rollbackTo(null);
+    return this.options.startBlock;
+  }
+
+  // A checkpoint is canonical when the next block builds on it, or when it is still the head under the same hash
+  private async isCanonical(checkpoint: Checkpoint): Promise<boolean> {
+    const child = await this.provider.getBlock(checkpoint.blockNumber + 1);
+    if (child) return child.parentHash === checkpoint.blockHash;
+    const block = await this.provider.getBlock(checkpoint.blockNumber);
+    return block?.hash === checkpoint.blockHash;
+  }
+
+  start(pollIntervalMs: number) {
+    const tick = async () => {
+      try {
+        const stored = await this.syncOnce();
+        if (stored > 0) console.log(`Indexed ${stored} event(s) up to block ${this.store.getCursor()}`);
+      } catch (e) {
+        console.error("Indexer sync failed:", e);
+      }
+      if (this.timer !== null) this.timer = setTimeout(tick, pollIntervalMs);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop() {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private async fetchRange(fromBlock: number, toBlock: number): Promise<{ events: IndexedEvent[]; checkpoint: Checkpoint }> {
+    const before = await this.provider.getBlock(toBlock);
+    const logs = await this.provider.getLogs({
+      address: this.contracts.map(contract => contract.address),
+      topics: [this.contracts.flatMap(contract => contract.topics)],
+      fromBlock,
+      toBlock
+    });
+    // A reorg between the two header reads could mix logs from both forks into this range
+    const after = await this.provider.getBlock(toBlock);
+    if (!before?.hash || before.hash !== after?.hash) {
+      throw new Error(`Block ${toBlock} changed while its range was fetched`);
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const contract = this.contracts.find(c => c.address === ethers.getAddress(log.address));
+      const parsed = contract?.iface.parseLog(log);
+      if (!contract || !parsed) continue;
+      events.push({
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        contract: contract.name,
+        name: parsed.name,
+        args: toEventArgs(parsed)
+      });
+    }
+    return { events, checkpoint: { blockNumber: toBlock, blockHash: before.hash } };
+  }
+}
@@ -0,0 +1,59 @@
+// indexer/server.ts
+import http from "http";
+import type { EventStore } from "./store";
+
+type Route = (params: string[]) => { status: number; body: unknown };
+
+const notFound = (message: string) => ({ status: 404, body: { error: message } });
+
+const isAddress = (value: string) => /^0x[0-9a-fA-F]{40}$/.test(value);
+const isUint = (value: string) => /^[0-9]+$/.test(value);
+
+// JSON API read by the frontend; every route is a GET
+export function createServer(store: EventStore): http.Server {
+  const routes: Array<[RegExp, Route]> = [
+    [/^\/health$/, () => ({ status: 200, body: { ok: true, lastBlock: store.getCursor() } })],
+    [/^\/records\/([^/]+)$/, ([owner]) => isAddress(owner)
+      ? { status: 200, body: store.recordsOf(owner) }
+      : { status: 400, body: { error: "Invalid owner address" } }],
+    [/^\/batches\/([^/]+)\/timeline$/, ([batchId]) => isUint(batchId)
+      ? { status: 200, body: store.batchTimeline(batchId) }
+      : { status: 400, body: { error: "Invalid batch id" } }],
+    [/^\/decryptions\/([^/]+)$/, ([requestId]) => {
+      if (!isUint(requestId)) return { status: 400, body: { error: "Invalid request id" } };
+      const status = store.decryption(requestId);
+      return status ? { status: 200, body: status } : notFound("Unknown decryption request");
+    }],
+    [/^\/keys\/([^/]+)\/history$/, ([key]) => ({ status: 200, body: store.keyHistory(key) })]
+  ];
+
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "GET") return send(405, { error: "Method not allowed" });
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    for (const [pattern, route] of routes) {
+      const match = pattern.exec(path);
+      if (!match) continue;
+      let params: string[];
+      try {
+        params = match.slice(1).map(decodeURIComponent);
+      } catch {
+        // A stray "%" that does not start an escape sequence
+        return send(400, { error: "Malformed path" });
+      }
+      try {
+        const { status, body } = route(params);
+        return send(status, body);
+      } catch (e) {
+        console.error(`Failed to serve ${path}:`, e);
+        return send(500, { error: "Internal error" });
+      }
+    }
+    send(404, { error: "Not found" });
+  });
+}
@@ -0,0 +1,209 @@
+// indexer/store.ts
+import Database from "better-sqlite3";
+
+export type EventArgs = Record<string, string | boolean>;
+
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  transactionHash: string;
+  contract: string;
+  name: string;
+  args: EventArgs;
+}
+
+// Last block of a stored range and its hash, used to notice when the chain under it changes
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface RecordEntry {
+  tokenId: string;
+  holder: string;
+  vehicleId: string;
+  permanent: boolean;
+  revoked: boolean;
+  mintedBlock: number;
+}
+
+export interface TimelineEntry {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  name: string;
+  args: EventArgs;
+}
+
+export interface DecryptionStatus {
+  requestId: string;
+  batchId: string;
+  stateHash: string;
+  status: "pending" | "completed";
+  requestedBlock: number;
+  completedBlock: number | null;
+  accessGranted: boolean | null;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  contract TEXT NOT NULL,
+  name TEXT NOT NULL,
+  batch_id TEXT,
+  request_id TEXT,
+  token_id TEXT,
+  args TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_batch ON events (batch_id, block_number, log_index);
+CREATE INDEX IF NOT EXISTS events_request ON events (request_id);
+CREATE INDEX IF NOT EXISTS events_token ON events (token_id, name);
+CREATE TABLE IF NOT EXISTS checkpoints (
+  block_number INTEGER PRIMARY KEY,
+  block_hash TEXT NOT NULL
+);
+`;
+
+// Reorgs deeper than this many stored ranges roll the whole index back
+const MAX_CHECKPOINTS = 128;
+
+// SQLite persistence for the indexer; every view is derived from the raw event log
+export class EventStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  // Last block whose logs are fully stored, or null before the first sync
+  getCursor(): number | null {
+    return this.getCheckpoint()?.blockNumber ?? null;
+  }
+
+  getCheckpoint(): Checkpoint | null {
+    return this.getCheckpoints(1)[0] ?? null;
+  }
+
+  // Newest first
+  getCheckpoints(limit = MAX_CHECKPOINTS): Checkpoint[] {
+    return this.db.prepare(
+      "SELECT block_number AS blockNumber, block_hash AS blockHash FROM checkpoints ORDER BY block_number DESC LIMIT ?"
+    ).all(limit) as Checkpoint[];
+  }
+
+  // Stores one scanned range atomically so a crash never leaves the checkpoint ahead of the events
+  saveRange(events: IndexedEvent[], checkpoint: Checkpoint) {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO events (block_number, block_hash, log_index, tx_hash, contract, name, batch_id, request_id, token_id, args)
+      VALUES (@blockNumber, @blockHash, @logIndex, @transactionHash, @contract, @name, @batchId, @requestId, @tokenId, @args)
+    `);
+    const saveCheckpoint = this.db.prepare("INSERT OR REPLACE INTO checkpoints (block_number, block_hash) VALUES (?, ?)");
+    const pruneCheckpoints = this.db.prepare(
+      "DELETE FROM checkpoints WHERE block_number NOT IN (SELECT block_number FROM checkpoints ORDER BY block_number DESC LIMIT ?)"
+    );
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        insert.run({
+          blockNumber: event.blockNumber,
+          blockHash: event.blockHash,
+          logIndex: event.logIndex,
+          transactionHash: event.transactionHash,
+          contract: event.contract,
+          name: event.name,
+          batchId: event.args.batchId ?? null,
+          requestId: event.args.requestId ?? null,
+          tokenId: event.args.tokenId ?? null,
+          args: JSON.stringify(event.args)
+        });
+      }
+      saveCheckpoint.run(checkpoint.blockNumber, checkpoint.blockHash);
+      pruneCheckpoints.run(MAX_CHECKPOINTS);
+    })();
+  }
+
+  // Drops everything stored above blockNumber; null empties the index
+  rollbackTo(blockNumber: number | null) {
+    const above = blockNumber ?? -1;
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM events WHERE block_number > ?").run(above);
+      this.db.prepare("DELETE FROM checkpoints WHERE block_number > ?").run(above);
+    })();
+  }
+
+  // Tokens whose latest Transfer went to holder, with the details of their AccessMinted event
+  recordsOf(holder: string): RecordEntry[] {
+    const rows = this.db.prepare(`
+      SELECT t.token_id AS tokenId, json_extract(t.args, '$.to') AS holder,
+             json_extract(m.args, '$.vehicleId') AS vehicleId, json_extract(m.args, '$.permanent') AS permanent,
+             m.block_number AS mintedBlock,
+             EXISTS (SELECT 1 FROM events r WHERE r.token_id = t.token_id AND r.name = 'AccessRevoked') AS revoked
+      FROM events t
+      JOIN events m ON m.token_id = t.token_id AND m.name = 'AccessMinted'
+      WHERE t.name = 'Transfer' AND lower(json_extract(t.args, '$.to')) = lower(?)
+        AND NOT EXISTS (
+          SELECT 1 FROM events later
+          WHERE later.token_id = t.token_id AND later.name = 'Transfer'
+            AND (later.block_number, later.log_index) > (t.block_number, t.log_index)
+        )
+      ORDER BY CAST(t.token_id AS INTEGER)
+    `).all(holder) as Array<Omit<RecordEntry, "permanent" | "revoked"> & { permanent: number; revoked: number }>;
+
+    return rows.map(row => ({ ...row, permanent: Boolean(row.permanent), revoked: Boolean(row.revoked) }));
+  }
+
+  // Every event tagged with the batch, oldest first
+  batchTimeline(batchId: string): TimelineEntry[] {
+    const rows = this.db.prepare(`
+      SELECT block_number AS blockNumber, tx_hash AS transactionHash, log_index AS logIndex, name, args
+      FROM events WHERE batch_id = ? ORDER BY block_number, log_index
+    `).all(batchId) as Array<Omit<TimelineEntry, "args"> & { args: string }>;
+
+    return rows.map(row => ({ ...row, args: JSON.parse(row.args) }));
+  }
+
+  decryption(requestId: string): DecryptionStatus | null {
+    const rows = this.db.prepare(`
+      SELECT block_number AS blockNumber, name, args FROM events
+      WHERE request_id = ? AND name IN ('DecryptionRequested', 'DecryptionCompleted')
+      ORDER BY block_number, log_index
+    `).all(requestId) as Array<{ blockNumber: number; name: string; args: string }>;
+
+    const requested = rows.find(row => row.name === "DecryptionRequested");
+    if (!requested) return null;
+    const completed = rows.find(row => row.name === "DecryptionCompleted");
+    const requestArgs = JSON.parse(requested.args) as EventArgs;
+
+    return {
+      requestId,
+      batchId: String(requestArgs.batchId),
+      stateHash: String(requestArgs.stateHash),
+      status: completed ? "completed" : "pending",
+      requestedBlock: requested.blockNumber,
+      completedBlock: completed ? completed.blockNumber : null,
+      accessGranted: completed ? Boolean((JSON.parse(completed.args) as EventArgs).accessGranted) : null
+    };
+  }
+
+  // DataStored writes to one UniversalAdapter key, oldest first
+  keyHistory(key: string): TimelineEntry[] {
+    const rows = this.db.prepare(`
+      SELECT block_number AS blockNumber, tx_hash AS transactionHash, log_index AS logIndex, name, args
+      FROM events WHERE name = 'DataStored' AND json_extract(args, '$.key') = ?
+      ORDER BY block_number, log_index
+    `).all(key) as Array<Omit<TimelineEntry, "args"> & { args: string }>;
+
+    return rows.map(row => ({ ...row, args: JSON.parse(row.args) }));
+  }
+}
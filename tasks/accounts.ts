@@ -0,0 +1,259 @@
+// tasks/accounts.ts
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { Writable } from "stream";
+import { HDNodeWallet, TransactionRequest, Wallet, getBytes } from "ethers";
+import { extendProvider, task, types } from "hardhat/config";
+import { EIP1193Provider, HttpNetworkAccountsUserConfig, RequestArguments } from "hardhat/types";
+import { HardhatPluginError, ProviderWrapper } from "hardhat/plugins";
+
+const PLUGIN = "accounts";
+const ROOT = path.join(__dirname, "..");
+export const KEYSTORE_DIR = path.join(ROOT, "keystores");
+export const DEFAULT_HD_PATH = "m/44'/60'/0'/0";
+
+// Build output and dependencies hold hashes that look like keys and never hold real ones
+const SKIPPED_DIRS = new Set([".git", "node_modules", "artifacts", "cache", "types", "deployments", "fhevmTemp", "fhevmtemp", "dist", "keystores"]);
+// Text files a key might be pasted into; JSON, sources and lockfiles are full of 32-byte hashes
+const SCANNED_EXTENSIONS = new Set(["", ".txt", ".key", ".pk", ".secret", ".env", ".local"]);
+const MAX_SCANNED_BYTES = 64 * 1024;
+// A bare 32-byte hex string on its own line or as an env value, e.g. `PRIVATE_KEY=0x...`
+const PLAINTEXT_KEY = /^\s*(?:[A-Za-z_][A-Za-z0-9_]*\s*=\s*)?["']?(0x)?[0-9a-fA-F]{64}["']?\s*$/m;
+
+// Relative paths of files under root that contain what looks like a raw private key
+export function findPlaintextKeyFiles(root: string = ROOT): string[] {
+  const found: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) walk(full);
+        continue;
+      }
+      // .env and .env.local have no extension as far as path.extname is concerned
+      const ext = entry.name.startsWith(".env") ? ".env" : path.extname(entry.name);
+      if (!entry.isFile() || !SCANNED_EXTENSIONS.has(ext)) continue;
+      if (fs.statSync(full).size > MAX_SCANNED_BYTES) continue;
+      if (PLAINTEXT_KEY.test(fs.readFileSync(full, "utf8"))) found.push(path.relative(root, full));
+    }
+  };
+  walk(root);
+  return found;
+}
+
+export function assertNoPlaintextKeys(root: string = ROOT) {
+  const files = findPlaintextKeyFiles(root);
+  if (files.length > 0) {
+    throw new HardhatPluginError(
+      PLUGIN,
+      `Refusing to run: plaintext private keys found in ${files.join(", ")}. ` +
+        "Import them with `npx hardhat accounts:import`, then delete the files."
+    );
+  }
+}
+
+// Reads a line from the terminal without echoing it
+async function promptSecret(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new HardhatPluginError(PLUGIN, `${question.replace(/:\s*$/, "")} is needed but there is no terminal to ask on`);
+  }
+  // The question is printed, then everything readline echoes while the answer is typed is dropped
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  try {
+    return await new Promise<string>((resolve) => {
+      rl.question(question, (answer) => {
+        process.stdout.write("\n");
+        resolve(answer.trim());
+      });
+      muted = true;
+    });
+  } finally {
+    rl.close();
+  }
+}
+
+async function keystorePassword(confirm = false): Promise<string> {
+  const fromEnv = process.env.DEPLOYER_KEYSTORE_PASSWORD;
+  if (fromEnv) return fromEnv;
+  const password = await promptSecret("Keystore password: ");
+  if (confirm && (await promptSecret("Repeat password: ")) !== password) {
+    throw new HardhatPluginError(PLUGIN, "Passwords do not match");
+  }
+  return password;
+}
+
+function keystorePaths(): string[] {
+  return (process.env.DEPLOYER_KEYSTORE ?? "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0)
+    .map((p) => path.resolve(ROOT, p));
+}
+
+// Decrypts every keystore in DEPLOYER_KEYSTORE with one password; errors name the file, never the key
+export async function loadKeystoreWallets(files: string[], password?: string): Promise<Array<Wallet | HDNodeWallet>> {
+  password ??= await keystorePassword();
+  const wallets: Array<Wallet | HDNodeWallet> = [];
+  for (const file of files) {
+    try {
+      wallets.push(await Wallet.fromEncryptedJson(fs.readFileSync(file, "utf8"), password));
+    } catch (e) {
+      throw new HardhatPluginError(PLUGIN, `Could not decrypt keystore ${path.relative(ROOT, file)}: ${(e as Error).message}`);
+    }
+  }
+  return wallets;
+}
+
+// JSON-RPC transaction fields as eth_sendTransaction receives them, all quantities hex-encoded
+interface RpcTransaction {
+  from: string;
+  to?: string;
+  data?: string;
+  value?: string;
+  gas?: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  nonce?: string;
+  accessList?: TransactionRequest["accessList"];
+}
+
+// Answers eth_accounts with the keystore accounts and signs their transactions and messages locally
+// with ethers; requests for any other account go to the node unchanged
+export class KeystoreAccountsProvider extends ProviderWrapper {
+  private readonly wallets = new Map<string, Wallet | HDNodeWallet>();
+
+  constructor(provider: EIP1193Provider, wallets: Array<Wallet | HDNodeWallet>) {
+    super(provider);
+    wallets.forEach((wallet) => this.wallets.set(wallet.address.toLowerCase(), wallet));
+  }
+
+  private wallet(address: unknown): Wallet | HDNodeWallet | undefined {
+    return typeof address === "string" ? this.wallets.get(address.toLowerCase()) : undefined;
+  }
+
+  async request(args: RequestArguments): Promise<unknown> {
+    const params = this._getParams(args);
+    switch (args.method) {
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return [...this.wallets.values()].map((wallet) => wallet.address);
+      case "eth_sendTransaction": {
+        const wallet = this.wallet(params[0]?.from);
+        if (wallet) return this.sendTransaction(wallet, params[0]);
+        break;
+      }
+      case "personal_sign": {
+        const wallet = this.wallet(params[1]);
+        if (wallet) return wallet.signMessage(getBytes(params[0]));
+        break;
+      }
+      case "eth_sign": {
+        const wallet = this.wallet(params[0]);
+        if (wallet) return wallet.signMessage(getBytes(params[1]));
+        break;
+      }
+      case "eth_signTypedData_v4": {
+        const wallet = this.wallet(params[0]);
+        if (wallet) {
+          const typedData = typeof params[1] === "string" ? JSON.parse(params[1]) : params[1];
+          // ethers derives the domain type itself and rejects it among the others
+          const { EIP712Domain: _domain, ...types } = typedData.types;
+          return wallet.signTypedData(typedData.domain, types, typedData.message);
+        }
+        break;
+      }
+    }
+    return this._wrappedProvider.request(args);
+  }
+
+  // Hardhat's gas wrappers sit above this provider, so gas and fees are already filled in
+  private async sendTransaction(wallet: Wallet | HDNodeWallet, tx: RpcTransaction): Promise<unknown> {
+    const [chainId, nonce] = await Promise.all([
+      this._wrappedProvider.request({ method: "eth_chainId" }) as Promise<string>,
+      tx.nonce ?? (this._wrappedProvider.request({ method: "eth_getTransactionCount", params: [wallet.address, "pending"] }) as Promise<string>),
+    ]);
+    const signed = await wallet.signTransaction({
+      type: tx.maxFeePerGas !== undefined ? 2 : tx.gasPrice !== undefined ? 0 : undefined,
+      chainId: BigInt(chainId),
+      nonce: Number(nonce),
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gas,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      accessList: tx.accessList,
+    });
+    return this._wrappedProvider.request({ method: "eth_sendRawTransaction", params: [signed] });
+  }
+}
+
+// Accounts for a live network. Hardhat derives a mnemonic's accounts itself; keystores need an
+// asynchronous decrypt and maybe a prompt, so the network takes the node's accounts ("remote")
+// and the provider extension below answers for them instead
+export function deployerAccounts(): HttpNetworkAccountsUserConfig {
+  const mnemonic = process.env.DEPLOYER_MNEMONIC;
+  const keystores = keystorePaths();
+  if (mnemonic && keystores.length > 0) {
+    throw new HardhatPluginError(PLUGIN, "Set either DEPLOYER_MNEMONIC or DEPLOYER_KEYSTORE, not both");
+  }
+  if (mnemonic) {
+    return {
+      mnemonic,
+      path: process.env.DEPLOYER_HD_PATH || DEFAULT_HD_PATH,
+      initialIndex: 0,
+      count: Number(process.env.DEPLOYER_ACCOUNT_COUNT || 1),
+    };
+  }
+  return keystores.length > 0 ? "remote" : [];
+}
+
+// Only live networks sign with the keystores, so a local node keeps its funded test accounts
+extendProvider(async (provider, config, network) => {
+  const files = keystorePaths();
+  const networkConfig = config.networks[network];
+  if (files.length === 0 || !networkConfig.live || networkConfig.accounts !== "remote") {
+    return provider;
+  }
+  assertNoPlaintextKeys();
+  return new KeystoreAccountsProvider(provider, await loadKeystoreWallets(files));
+});
+
+task("accounts:import", "Encrypts a private key or mnemonic account into a JSON keystore under keystores/")
+  .addFlag("mnemonic", "Import an account derived from a mnemonic instead of a private key")
+  .addOptionalParam("hdPath", "Derivation path of the account when importing a mnemonic", `${DEFAULT_HD_PATH}/0`)
+  .addOptionalParam("out", "Directory to write the keystore to", KEYSTORE_DIR, types.string)
+  .setAction(async ({ mnemonic, hdPath, out }: { mnemonic: boolean; hdPath: string; out: string }) => {
+    assertNoPlaintextKeys();
+
+    // Read from the terminal so the secret stays out of shell history and process lists
+    const secret = await promptSecret(mnemonic ? "Mnemonic: " : "Private key: ");
+    let wallet: Wallet | HDNodeWallet;
+    try {
+      wallet = mnemonic ? HDNodeWallet.fromPhrase(secret, undefined, hdPath) : new Wallet(secret);
+    } catch {
+      // The parse error can quote its input, so it is not passed on
+      throw new HardhatPluginError(PLUGIN, mnemonic ? "That is not a valid mnemonic" : "That is not a valid private key");
+    }
+
+    const file = path.join(path.resolve(out), `${wallet.address}.json`);
+    if (fs.existsSync(file)) {
+      throw new HardhatPluginError(PLUGIN, `${path.relative(ROOT, file)} already exists`);
+    }
+    const json = await wallet.encrypt(await keystorePassword(true));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, json + "\n", { mode: 0o600 });
+
+    console.log(`Wrote keystore for ${wallet.address} to ${path.relative(ROOT, file)}`);
+    console.log(`Deploy with it by setting DEPLOYER_KEYSTORE=${path.relative(ROOT, file)}`);
+  });
@@ -0,0 +1,228 @@
+// tasks/deployments.ts
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { HardhatPluginError } from "hardhat/plugins";
+
+const PLUGIN = "deployments";
+const ROOT = path.join(__dirname, "..");
+export const FRONTEND_SRC = path.join(ROOT, "frontend", "web", "src");
+export const FRONTEND_ABI_DIR = path.join(FRONTEND_SRC, "abi");
+
+// Settings that change the bytecode and that verification has to reproduce
+export interface CompilerSettings {
+  version: string;
+  viaIR: boolean;
+  optimizer: { enabled: boolean; runs: number };
+  evmVersion: string;
+  bytecodeHash: string;
+}
+
+export interface ManifestEntry {
+  address: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
+  deployer: string | null;
+  args: unknown[];
+  // Fully qualified name, as hardhat-verify expects it
+  contract: string;
+  compiler: CompilerSettings;
+  // keccak256 of the compiled runtime bytecode, which tells whether the sources changed since
+  bytecodeHash: string;
+  // keccak256 of the code at the address right after deployment
+  codeHash: string;
+  // keccak256 of the ABI's JSON, matched against the frontend's copy
+  abiHash: string;
+  frontendAbi: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  updatedAt: string;
+  contracts: Record<string, ManifestEntry>;
+}
+
+// A dotfile, so hardhat-deploy does not read it as one more deployment
+export function manifestPath(hre: HardhatRuntimeEnvironment, network: string = hre.network.name): string {
+  return path.join(hre.config.paths.deployments, network, ".manifest.json");
+}
+
+export function frontendAbiPath(name: string): string {
+  return path.join(FRONTEND_ABI_DIR, `${name}.json`);
+}
+
+export function abiHash(abi: unknown): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(abi)));
+}
+
+const hashCode = (code: string) => (code === "0x" ? code : ethers.keccak256(code));
+
+// Taken from the solc metadata of the deployment, so it reflects the build that was deployed
+function compilerSettings(metadata: string | undefined, hre: HardhatRuntimeEnvironment): CompilerSettings {
+  if (metadata) {
+    const { compiler, settings } = JSON.parse(metadata);
+    return {
+      version: compiler.version,
+      viaIR: settings.viaIR ?? false,
+      optimizer: { enabled: settings.optimizer?.enabled ?? false, runs: settings.optimizer?.runs ?? 200 },
+      evmVersion: settings.evmVersion,
+      bytecodeHash: settings.metadata?.bytecodeHash ?? "ipfs",
+    };
+  }
+  const { version, settings } = hre.config.solidity.compilers[0];
+  return {
+    version,
+    viaIR: settings.viaIR ?? false,
+    optimizer: settings.optimizer,
+    evmVersion: settings.evmVersion,
+    bytecodeHash: settings.metadata?.bytecodeHash ?? "ipfs",
+  };
+}
+
+export function readManifest(hre: HardhatRuntimeEnvironment, network: string = hre.network.name): DeploymentManifest | null {
+  const file = manifestPath(hre, network);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+}
+
+// Records the current hardhat-deploy deployments of names; entries for other contracts are kept
+export async function writeManifest(hre: HardhatRuntimeEnvironment, names: readonly string[]) {
+  const chainId = Number(await hre.getChainId());
+  const previous = readManifest(hre);
+  const contracts: Record<string, ManifestEntry> = { ...previous?.contracts };
+
+  for (const name of names) {
+    const deployment = await hre.deployments.get(name);
+    const artifact = await hre.artifacts.readArtifact(name);
+    const code = await hre.ethers.provider.getCode(deployment.address);
+    contracts[name] = {
+      address: deployment.address,
+      transactionHash: deployment.transactionHash ?? null,
+      blockNumber: deployment.receipt?.blockNumber ?? null,
+      deployer: deployment.receipt?.from ?? null,
+      args: deployment.args ?? [],
+      contract: `${artifact.sourceName}:${artifact.contractName}`,
+      compiler: compilerSettings(deployment.metadata, hre),
+      bytecodeHash: hashCode(deployment.deployedBytecode ?? artifact.deployedBytecode),
+      codeHash: hashCode(code),
+      abiHash: abiHash(deployment.abi),
+      frontendAbi: path.relative(ROOT, frontendAbiPath(name)),
+    };
+  }
+
+  const manifest: DeploymentManifest = {
+    network: hre.network.name,
+    chainId,
+    updatedAt: new Date().toISOString(),
+    contracts,
+  };
+  const file = manifestPath(hre);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+}
+
+// Everything that no longer matches the manifest; an empty list means no drift
+async function findDrift(hre: HardhatRuntimeEnvironment, manifest: DeploymentManifest): Promise<string[]> {
+  const drift: string[] = [];
+  const chainId = Number(await hre.getChainId());
+  if (chainId !== manifest.chainId) {
+    drift.push(`connected to chain ${chainId} but the manifest is for chain ${manifest.chainId}`);
+  }
+
+  const frontendConfig = JSON.parse(fs.readFileSync(path.join(FRONTEND_SRC, "config.json"), "utf8"));
+  const frontendChain = frontendConfig.chains?.[String(manifest.chainId)];
+
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    const code = await hre.ethers.provider.getCode(entry.address);
+    if (code === "0x") {
+      drift.push(`${name}: no code at ${entry.address}`);
+    } else if (hashCode(code) !== entry.codeHash) {
+      drift.push(`${name}: code at ${entry.address} differs from what was deployed`);
+    }
+
+    const artifact = await hre.artifacts.readArtifact(name).catch(() => null);
+    if (!artifact) {
+      drift.push(`${name}: no longer compiled`);
+    } else if (hashCode(artifact.deployedBytecode) !== entry.bytecodeHash) {
+      drift.push(`${name}: sources changed since deployment, redeploy to pick them up`);
+    }
+
+    const abiFile = path.join(ROOT, entry.frontendAbi);
+    if (!fs.existsSync(abiFile)) {
+      drift.push(`${name}: frontend ABI ${entry.frontendAbi} is missing`);
+    } else {
+      const json = JSON.parse(fs.readFileSync(abiFile, "utf8"));
+      if (abiHash(json.abi ?? json) !== entry.abiHash) {
+        drift.push(`${name}: frontend ABI ${entry.frontendAbi} differs from the deployed ABI`);
+      }
+    }
+
+    const configured = frontendChain?.contracts?.[name];
+    if (!configured) {
+      drift.push(`${name}: no address for chain ${manifest.chainId} in frontend/web/src/config.json`);
+    } else if (configured.toLowerCase() !== entry.address.toLowerCase()) {
+      drift.push(`${name}: frontend/web/src/config.json points at ${configured}, deployed at ${entry.address}`);
+    }
+  }
+
+  // ABI files the frontend ships for contracts that were never deployed, e.g. renamed copies
+  const known = new Set(Object.values(manifest.contracts).map((entry) => path.join(ROOT, entry.frontendAbi)));
+  for (const file of fs.readdirSync(FRONTEND_ABI_DIR)) {
+    if (file.endsWith(".json") && !known.has(path.join(FRONTEND_ABI_DIR, file))) {
+      drift.push(`frontend ABI ${file} belongs to no deployed contract`);
+    }
+  }
+  return drift;
+}
+
+function etherscanKey(hre: HardhatRuntimeEnvironment): string {
+  const { apiKey } = hre.config.etherscan;
+  return (typeof apiKey === "string" ? apiKey : apiKey[hre.network.name]) ?? "";
+}
+
+async function verifyContracts(hre: HardhatRuntimeEnvironment, manifest: DeploymentManifest) {
+  if (!etherscanKey(hre)) {
+    console.log("Skipping verification: no Etherscan API key configured (set ETHERSCAN_API_KEY)");
+    return;
+  }
+  for (const [name, entry] of Object.entries(manifest.contracts)) {
+    console.log(`Verifying ${name} at ${entry.address}`);
+    try {
+      await hre.run("verify:verify", {
+        address: entry.address,
+        constructorArguments: entry.args,
+        contract: entry.contract,
+      });
+    } catch (e) {
+      // One failure should not hide the result for the other contracts
+      console.error(`  ${name} failed to verify: ${(e as Error).message}`);
+      process.exitCode = 1;
+    }
+  }
+}
+
+task("deployments:check", "Compares the deployment manifest with the chain, the compiled sources and the frontend")
+  .addFlag("verify", "Also verify the deployed sources on Etherscan when an API key is configured")
+  .setAction(async ({ verify }: { verify: boolean }, hre) => {
+    const manifest = readManifest(hre);
+    if (!manifest) {
+      throw new HardhatPluginError(
+        PLUGIN,
+        `No manifest for network ${hre.network.name}; deploy with \`npx hardhat deploy --network ${hre.network.name}\` first`
+      );
+    }
+
+    const drift = await findDrift(hre, manifest);
+    if (drift.length === 0) {
+      console.log(`${hre.network.name}: manifest, chain and frontend agree for ${Object.keys(manifest.contracts).join(", ")}`);
+    } else {
+      console.log(`${hre.network.name}: ${drift.length} difference(s) from the manifest`);
+      drift.forEach((line) => console.log(`  - ${line}`));
+      process.exitCode = 1;
+    }
+
+    if (verify) await verifyContracts(hre, manifest);
+  });
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { HDNodeWallet, Wallet, encryptKeystoreJson, verifyMessage, verifyTypedData } from "ethers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers, network } from "hardhat";
+import {
+  KeystoreAccountsProvider,
+  assertNoPlaintextKeys,
+  findPlaintextKeyFiles,
+  loadKeystoreWallets,
+} from "../tasks/accounts";
+
+const KEY = "59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+describe("Plaintext key check", function () {
+  let root: string;
+
+  const write = (relative: string, content: string) => {
+    const file = path.join(root, relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  beforeEach(function () {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "dav-keys-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("finds raw keys in text files and env files", async function () {
+    write("deploy/sy.txt", `0x${KEY}\n${KEY}\n`);
+    write(".env", `SEPOLIA_RPC_URL=https://example.org\nDEPLOYER_PRIVATE_KEY="0x${KEY}"\n`);
+
+    expect(findPlaintextKeyFiles(root).sort()).to.deep.equal([".env", path.join("deploy", "sy.txt")]);
+    expect(() => assertNoPlaintextKeys(root)).to.throw("deploy/sy.txt");
+  });
+
+  it("ignores hashes in sources, build output and keystores", async function () {
+    write("deploy/deploy.ts", `const salt = "0x${KEY}";\n`);
+    write("artifacts/build-info/abc.txt", `0x${KEY}\n`);
+    write("keystores/0xabc.json", JSON.stringify({ ciphertext: KEY }));
+    write("notes.txt", `tx 0x${KEY} was mined\n`);
+    write(".env", "DEPLOYER_KEYSTORE=keystores/0xabc.json\n");
+
+    expect(findPlaintextKeyFiles(root)).to.deep.equal([]);
+    expect(() => assertNoPlaintextKeys(root)).not.to.throw();
+  });
+});
+
+describe("Keystore accounts", function () {
+  let dir: string;
+  let keystore: string;
+  let wallet: HDNodeWallet;
+
+  before(async function () {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dav-keystore-"));
+    wallet = Wallet.createRandom();
+    keystore = path.join(dir, `${wallet.address}.json`);
+    // A cheap scrypt setting keeps the test fast; real keystores use the ethers default
+    const json = await encryptKeystoreJson({ address: wallet.address, privateKey: wallet.privateKey }, "correct horse", { scrypt: { N: 1 << 10 } });
+    fs.writeFileSync(keystore, json);
+  });
+
+  after(function () {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rejects a wrong password without revealing the key", async function () {
+    await expect(loadKeystoreWallets([keystore], "wrong")).to.be.rejectedWith(/Could not decrypt keystore/);
+  });
+
+  it("signs transactions and messages for the keystore account", async function () {
+    const wallets = await loadKeystoreWallets([keystore], "correct horse");
+    const provider = new KeystoreAccountsProvider(network.provider, wallets);
+    await network.provider.send("hardhat_setBalance", [wallet.address, "0x56bc75e2d63100000"]);
+
+    expect(await provider.request({ method: "eth_accounts" })).to.deep.equal([wallet.address]);
+
+    const [bob] = await ethers.getSigners();
+    const hash = (await provider.request({
+      method: "eth_sendTransaction",
+      params: [{ from: wallet.address, to: bob.address, value: "0x1", gas: "0x5208", gasPrice: "0x3b9aca00" }],
+    })) as string;
+    const receipt = await ethers.provider.getTransactionReceipt(hash);
+    expect(receipt!.from).to.equal(wallet.address);
+    expect(receipt!.status).to.equal(1);
+
+    const signature = (await provider.request({ method: "personal_sign", params: ["0x68656c6c6f", wallet.address] })) as string;
+    expect(verifyMessage("hello", signature)).to.equal(wallet.address);
+
+    const typedData = {
+      types: {
+        EIP712Domain: [{ name: "name", type: "string" }],
+        Mail: [{ name: "contents", type: "string" }],
+      },
+      domain: { name: "DAV" },
+      primaryType: "Mail",
+      message: { contents: "hi" },
+    };
+    const typedSignature = (await provider.request({
+      method: "eth_signTypedData_v4",
+      params: [wallet.address, JSON.stringify(typedData)],
+    })) as string;
+    expect(verifyTypedData(typedData.domain, { Mail: typedData.types.Mail }, typedData.message, typedSignature)).to.equal(
+      wallet.address,
+    );
+  });
+
+  it("leaves other accounts to the node", async function () {
+    const [, alice] = await ethers.getSigners();
+    const provider = new KeystoreAccountsProvider(network.provider, []);
+    const hash = (await provider.request({
+      method: "eth_sendTransaction",
+      params: [{ from: alice.address, to: alice.address, value: "0x1" }],
+    })) as string;
+    expect((await ethers.provider.getTransactionReceipt(hash))!.from).to.equal(alice.address);
+  });
+});
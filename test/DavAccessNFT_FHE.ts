@@ -0,0 +1,756 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { DavAccessNFT_FHE, DavAccessNFT_FHE__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("DavAccessNFT_FHE")) as DavAccessNFT_FHE__factory;
+  const davContract = (await factory.deploy()) as DavAccessNFT_FHE;
+  const davContractAddress = await davContract.getAddress();
+
+  return { davContract, davContractAddress };
+}
+
+describe("DavAccessNFT_FHE", function () {
+  let signers: Signers;
+  let davContract: DavAccessNFT_FHE;
+  let davContractAddress: string;
+
+  async function encryptValues(signer: HardhatEthersSigner, values: number[]) {
+    const input = fhevm.createEncryptedInput(davContractAddress, signer.address);
+    for (const value of values) {
+      input.add32(value);
+    }
+    return input.encrypt();
+  }
+
+  async function submitPreferences(signer: HardhatEthersSigner, values: [number, number, number]) {
+    const encrypted = await encryptValues(signer, values);
+    return davContract
+      .connect(signer)
+      ["submitPreferences(bytes32,bytes32,bytes32,bytes)"](
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+      );
+  }
+
+  async function updateAccessScore(signer: HardhatEthersSigner, score: number) {
+    const encrypted = await encryptValues(signer, [score]);
+    return davContract.connect(signer)["updateAccessScore(bytes32,bytes)"](encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function mintAccess(signer: HardhatEthersSigner, vehicleId: string, values: [number, number, number, number]) {
+    const encrypted = await encryptValues(signer, values);
+    return davContract
+      .connect(signer)
+      .mintAccess(
+        vehicleId,
+        false,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.handles[3],
+        encrypted.inputProof,
+      );
+  }
+
+  async function decryptAggregate(handle: string) {
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, davContractAddress, signers.deployer);
+  }
+
+  async function setClassThreshold(signer: HardhatEthersSigner, vehicleClass: string, threshold: number) {
+    const encrypted = await encryptValues(signer, [threshold]);
+    return davContract.connect(signer).setClassThreshold(vehicleClass, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function requestAccessCheck(signer: HardhatEthersSigner, batchId: number, vehicleClass?: string) {
+    const asSigner = davContract.connect(signer);
+    const tx =
+      vehicleClass === undefined
+        ? await asSigner["requestAccessCheck(uint256)"](batchId)
+        : await asSigner["requestAccessCheck(uint256,string)"](batchId, vehicleClass);
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => davContract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    return event!.args.requestId as bigint;
+  }
+
+  // Runs a full batch so an access check can be requested against it
+  async function seedBatch(accessScore = 65) {
+    await davContract.openBatch();
+    await submitPreferences(signers.deployer, [70, 40, 20]);
+    await davContract.setCooldownSeconds(0);
+    await updateAccessScore(signers.deployer, accessScore);
+    await davContract.closeBatch();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    // The encrypted paths need the in-process FHEVM mock
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ davContract, davContractAddress } = await deployFixture());
+  });
+
+  describe("ownership and providers", function () {
+    it("sets the deployer as owner and provider", async function () {
+      expect(await davContract.owner()).to.eq(signers.deployer.address);
+      expect(await davContract.isProvider(signers.deployer.address)).to.eq(true);
+      expect(await davContract.cooldownSeconds()).to.eq(60);
+    });
+
+    it("transfers ownership", async function () {
+      await expect(davContract.transferOwnership(signers.alice.address))
+        .to.emit(davContract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await davContract.owner()).to.eq(signers.alice.address);
+
+      await expect(davContract.addProvider(signers.bob.address)).to.be.revertedWithCustomError(davContract, "NotOwner");
+    });
+
+    it("rejects owner-only calls from other accounts", async function () {
+      const asAlice = davContract.connect(signers.alice);
+      await expect(asAlice.transferOwnership(signers.alice.address)).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.addProvider(signers.alice.address)).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.removeProvider(signers.deployer.address)).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.pause()).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.unpause()).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.setCooldownSeconds(0)).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.openBatch()).to.be.revertedWithCustomError(davContract, "NotOwner");
+      await expect(asAlice.closeBatch()).to.be.revertedWithCustomError(davContract, "NotOwner");
+    });
+
+    it("adds and removes providers", async function () {
+      await expect(davContract.addProvider(signers.alice.address))
+        .to.emit(davContract, "ProviderAdded")
+        .withArgs(signers.alice.address);
+      expect(await davContract.isProvider(signers.alice.address)).to.eq(true);
+
+      await expect(davContract.removeProvider(signers.alice.address))
+        .to.emit(davContract, "ProviderRemoved")
+        .withArgs(signers.alice.address);
+      expect(await davContract.isProvider(signers.alice.address)).to.eq(false);
+    });
+
+    it("rejects submissions from non-providers", async function () {
+      await davContract.openBatch();
+      await expect(submitPreferences(signers.alice, [1, 2, 3])).to.be.revertedWithCustomError(davContract, "NotProvider");
+      await expect(updateAccessScore(signers.alice, 1)).to.be.revertedWithCustomError(davContract, "NotProvider");
+    });
+  });
+
+  describe("pause", function () {
+    it("blocks state-changing calls while paused", async function () {
+      await expect(davContract.pause()).to.emit(davContract, "Paused").withArgs(signers.deployer.address);
+      expect(await davContract.paused()).to.eq(true);
+
+      await expect(davContract.pause()).to.be.revertedWithCustomError(davContract, "PausedContract");
+      await expect(davContract.openBatch()).to.be.revertedWithCustomError(davContract, "PausedContract");
+      await expect(davContract.closeBatch()).to.be.revertedWithCustomError(davContract, "PausedContract");
+      await expect(submitPreferences(signers.deployer, [1, 2, 3])).to.be.revertedWithCustomError(
+        davContract,
+        "PausedContract",
+      );
+      await expect(updateAccessScore(signers.deployer, 1)).to.be.revertedWithCustomError(davContract, "PausedContract");
+      await expect(davContract["requestAccessCheck(uint256)"](1)).to.be.revertedWithCustomError(davContract, "PausedContract");
+      await expect(mintAccess(signers.alice, "car-1", [1, 2, 3, 4])).to.be.revertedWithCustomError(
+        davContract,
+        "PausedContract",
+      );
+    });
+
+    it("resumes after unpause", async function () {
+      await davContract.pause();
+      await expect(davContract.unpause()).to.emit(davContract, "Unpaused").withArgs(signers.deployer.address);
+      expect(await davContract.paused()).to.eq(false);
+
+      await expect(davContract.openBatch()).to.emit(davContract, "BatchOpened").withArgs(1);
+    });
+  });
+
+  describe("cooldowns", function () {
+    it("enforces the submission cooldown per provider", async function () {
+      await davContract.openBatch();
+      await davContract.addProvider(signers.alice.address);
+      await submitPreferences(signers.deployer, [1, 2, 3]);
+
+      await expect(submitPreferences(signers.deployer, [1, 2, 3])).to.be.revertedWithCustomError(
+        davContract,
+        "CooldownActive",
+      );
+      await expect(updateAccessScore(signers.deployer, 1)).to.be.revertedWithCustomError(davContract, "CooldownActive");
+      // Other providers are not affected
+      await expect(submitPreferences(signers.alice, [1, 2, 3])).to.emit(davContract, "PreferencesSubmitted");
+
+      await time.increase(60);
+      await expect(submitPreferences(signers.deployer, [1, 2, 3])).to.emit(davContract, "PreferencesSubmitted");
+    });
+
+    it("enforces the decryption request cooldown", async function () {
+      await seedBatch();
+      await davContract.setCooldownSeconds(60);
+
+      await requestAccessCheck(signers.alice, 1);
+      await expect(davContract.connect(signers.alice)["requestAccessCheck(uint256)"](1)).to.be.revertedWithCustomError(
+        davContract,
+        "CooldownActive",
+      );
+
+      await time.increase(60);
+      await expect(davContract.connect(signers.alice)["requestAccessCheck(uint256)"](1)).to.emit(davContract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("lets the owner change the cooldown", async function () {
+      await expect(davContract.setCooldownSeconds(5)).to.emit(davContract, "CooldownSet").withArgs(60, 5);
+      expect(await davContract.cooldownSeconds()).to.eq(5);
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    it("opens and closes batches", async function () {
+      await expect(davContract.closeBatch()).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+
+      await expect(davContract.openBatch()).to.emit(davContract, "BatchOpened").withArgs(1);
+      expect(await davContract.currentBatchId()).to.eq(1);
+      expect(await davContract.batchOpen()).to.eq(true);
+
+      await expect(davContract.closeBatch()).to.emit(davContract, "BatchClosed").withArgs(1);
+      expect(await davContract.batchOpen()).to.eq(false);
+      await expect(davContract.closeBatch()).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+
+      await expect(davContract.openBatch()).to.emit(davContract, "BatchOpened").withArgs(2);
+    });
+
+    it("rejects submissions outside an open batch", async function () {
+      await expect(submitPreferences(signers.deployer, [1, 2, 3])).to.be.revertedWithCustomError(
+        davContract,
+        "BatchNotOpen",
+      );
+      await expect(updateAccessScore(signers.deployer, 1)).to.be.revertedWithCustomError(davContract, "BatchNotOpen");
+    });
+
+    it("keeps separate encrypted aggregates per batch", async function () {
+      await seedBatch(65);
+      await davContract.openBatch();
+      await submitPreferences(signers.deployer, [5, 6, 7]);
+      await updateAccessScore(signers.deployer, 10);
+
+      const first = await davContract.getBatchAggregates(1);
+      const second = await davContract.getBatchAggregates(2);
+      expect(await decryptAggregate(first.drivingStyle)).to.eq(70);
+      expect(await decryptAggregate(first.accessScore)).to.eq(65);
+      expect(await decryptAggregate(second.drivingStyle)).to.eq(5);
+      expect(await decryptAggregate(second.routePreference)).to.eq(6);
+      expect(await decryptAggregate(second.comfortLevel)).to.eq(7);
+      expect(await decryptAggregate(second.accessScore)).to.eq(10);
+    });
+
+    it("reports batch history", async function () {
+      await expect(davContract.getBatch(1)).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+
+      await seedBatch();
+      await davContract.openBatch();
+      expect(await davContract.isBatchClosed(1)).to.eq(true);
+      expect(await davContract.isBatchClosed(2)).to.eq(false);
+
+      const requestId = await requestAccessCheck(signers.alice, 1);
+      await fhevm.awaitDecryptionOracle();
+
+      const first = await davContract.getBatch(1);
+      expect(first.batchId).to.eq(1);
+      expect(first.submissionCount).to.eq(1);
+      expect(first.closed).to.eq(true);
+      expect(first.aggregates.accessScore).to.eq((await davContract.getBatchAggregates(1)).accessScore);
+      expect(first.result.decided).to.eq(true);
+      expect(first.result.accessGranted).to.eq(true);
+      expect(first.result.requestId).to.eq(requestId);
+
+      const second = await davContract.getBatch(2);
+      expect(second.closed).to.eq(false);
+      expect(second.result.decided).to.eq(false);
+      expect(second.aggregates.accessScore).to.eq(ethers.ZeroHash);
+
+      await expect(davContract.getBatch(3)).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+    });
+
+    it("counts submissions per batch", async function () {
+      await davContract.openBatch();
+      await davContract.setCooldownSeconds(0);
+      await submitPreferences(signers.deployer, [1, 2, 3]);
+      await submitPreferences(signers.deployer, [1, 2, 3]);
+      expect(await davContract.batchSubmissionCount(1)).to.eq(2);
+
+      await davContract.closeBatch();
+      await davContract.openBatch();
+      expect(await davContract.batchSubmissionCount(2)).to.eq(0);
+    });
+  });
+
+  describe("encrypted submission", function () {
+    it("accumulates encrypted preferences", async function () {
+      await davContract.openBatch();
+      await davContract.setCooldownSeconds(0);
+      await expect(submitPreferences(signers.deployer, [70, 40, 20]))
+        .to.emit(davContract, "PreferencesSubmitted")
+        .withArgs(signers.deployer.address, 1, anyHandle, anyHandle, anyHandle);
+      await submitPreferences(signers.deployer, [10, 5, 2]);
+
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).drivingStyle)).to.eq(80);
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).routePreference)).to.eq(45);
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).comfortLevel)).to.eq(22);
+    });
+
+    it("accumulates encrypted access scores", async function () {
+      await davContract.openBatch();
+      await davContract.setCooldownSeconds(0);
+      await expect(updateAccessScore(signers.deployer, 30))
+        .to.emit(davContract, "AccessScoreUpdated")
+        .withArgs(signers.deployer.address, 1, anyHandle);
+      await updateAccessScore(signers.deployer, 25);
+
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).accessScore)).to.eq(55);
+    });
+
+    it("lets a provider decrypt its own submission", async function () {
+      await davContract.openBatch();
+      await davContract.addProvider(signers.alice.address);
+      const tx = await submitPreferences(signers.alice, [33, 44, 55]);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => davContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "PreferencesSubmitted");
+
+      const clear = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        event!.args.drivingStyle,
+        davContractAddress,
+        signers.alice,
+      );
+      expect(clear).to.eq(33);
+    });
+
+    it("rejects inputs encrypted for another account", async function () {
+      await davContract.openBatch();
+      const encrypted = await encryptValues(signers.alice, [1, 2, 3]);
+      await expect(
+        davContract["submitPreferences(bytes32,bytes32,bytes32,bytes)"](
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.inputProof,
+        ),
+      ).to.be.reverted;
+    });
+
+    it("rejects raw handles the provider has no access to", async function () {
+      await davContract.openBatch();
+      await davContract.addProvider(signers.bob.address);
+      await mintAccess(signers.alice, "car-7", [11, 60, 22, 50]);
+      await setClassThreshold(signers.deployer, "premium", 77);
+
+      const prefs = await davContract.getTokenPreferences(1);
+      const threshold = await davContract.getClassThreshold("premium");
+      const asBob = davContract.connect(signers.bob);
+      await expect(
+        asBob["submitPreferences(bytes32,bytes32,bytes32)"](prefs.drivingStyle, prefs.routePreference, prefs.comfortLevel),
+      ).to.be.revertedWithCustomError(davContract, "HandleNotAllowed");
+      await expect(asBob["updateAccessScore(bytes32)"](threshold)).to.be.revertedWithCustomError(
+        davContract,
+        "HandleNotAllowed",
+      );
+    });
+  });
+
+  describe("batch statistics", function () {
+    async function runBatch(submissions: [number, number, number][]) {
+      await davContract.openBatch();
+      await davContract.setCooldownSeconds(0);
+      for (const values of submissions) {
+        await submitPreferences(signers.deployer, values);
+      }
+      await davContract.closeBatch();
+    }
+
+    it("computes encrypted means, minimums and maximums", async function () {
+      await runBatch([
+        [70, 40, 20],
+        [50, 60, 30],
+        [90, 20, 10],
+      ]);
+
+      await expect(davContract.finalizeBatch(1)).to.emit(davContract, "BatchFinalized").withArgs(1);
+
+      const stats = await davContract.getBatchStatistics(1);
+      expect(stats.finalized).to.eq(true);
+      expect((await davContract.getBatch(1)).finalized).to.eq(true);
+
+      expect(await decryptAggregate(stats.drivingStyle.mean)).to.eq(70);
+      expect(await decryptAggregate(stats.drivingStyle.min)).to.eq(50);
+      expect(await decryptAggregate(stats.drivingStyle.max)).to.eq(90);
+      expect(await decryptAggregate(stats.routePreference.mean)).to.eq(40);
+      expect(await decryptAggregate(stats.routePreference.min)).to.eq(20);
+      expect(await decryptAggregate(stats.routePreference.max)).to.eq(60);
+      expect(await decryptAggregate(stats.comfortLevel.mean)).to.eq(20);
+      expect(await decryptAggregate(stats.comfortLevel.min)).to.eq(10);
+      expect(await decryptAggregate(stats.comfortLevel.max)).to.eq(30);
+    });
+
+    it("rounds means down", async function () {
+      await runBatch([
+        [1, 2, 3],
+        [2, 2, 4],
+      ]);
+      await davContract.finalizeBatch(1);
+
+      const stats = await davContract.getBatchStatistics(1);
+      expect(await decryptAggregate(stats.drivingStyle.mean)).to.eq(1);
+      expect(await decryptAggregate(stats.routePreference.mean)).to.eq(2);
+      expect(await decryptAggregate(stats.comfortLevel.mean)).to.eq(3);
+    });
+
+    it("finalises only closed, non-empty batches once", async function () {
+      await expect(davContract.connect(signers.alice).finalizeBatch(1)).to.be.revertedWithCustomError(
+        davContract,
+        "NotOwner",
+      );
+
+      await davContract.openBatch();
+      await submitPreferences(signers.deployer, [1, 2, 3]);
+      await expect(davContract.finalizeBatch(1)).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+
+      await davContract.closeBatch();
+      await davContract.finalizeBatch(1);
+      await expect(davContract.finalizeBatch(1)).to.be.revertedWithCustomError(davContract, "BatchAlreadyFinalized");
+
+      await davContract.openBatch();
+      await davContract.closeBatch();
+      await expect(davContract.finalizeBatch(2)).to.be.revertedWithCustomError(davContract, "NotInitialized");
+    });
+
+    it("saturates sums instead of wrapping around", async function () {
+      const max = 2 ** 32 - 1;
+      await runBatch([
+        [max - 10, 1, 1],
+        [20, 1, 1],
+      ]);
+
+      const aggregates = await davContract.getBatchAggregates(1);
+      expect(await decryptAggregate(aggregates.drivingStyle)).to.eq(max);
+      expect(await decryptAggregate(aggregates.routePreference)).to.eq(2);
+    });
+  });
+
+  describe("lazy initialisation", function () {
+    it("starts with uninitialised aggregates", async function () {
+      expect((await davContract.getBatchAggregates(1)).drivingStyle).to.eq(ethers.ZeroHash);
+      expect((await davContract.getBatchAggregates(1)).routePreference).to.eq(ethers.ZeroHash);
+      expect((await davContract.getBatchAggregates(1)).comfortLevel).to.eq(ethers.ZeroHash);
+      expect((await davContract.getBatchAggregates(1)).accessScore).to.eq(ethers.ZeroHash);
+    });
+
+    it("yields a decryptable sum from the first submission to a fresh batch", async function () {
+      await davContract.openBatch();
+      await submitPreferences(signers.deployer, [7, 8, 9]);
+
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).drivingStyle)).to.eq(7);
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).routePreference)).to.eq(8);
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).comfortLevel)).to.eq(9);
+    });
+
+    it("yields a decryptable access score from the first update", async function () {
+      await davContract.openBatch();
+      await updateAccessScore(signers.deployer, 42);
+
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).accessScore)).to.eq(42);
+    });
+
+    it("keeps computing on the initialised aggregates", async function () {
+      await davContract.openBatch();
+      await davContract.addProvider(signers.alice.address);
+      await submitPreferences(signers.deployer, [7, 8, 9]);
+      await submitPreferences(signers.alice, [1, 1, 1]);
+
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).drivingStyle)).to.eq(8);
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).routePreference)).to.eq(9);
+      expect(await decryptAggregate((await davContract.getBatchAggregates(1)).comfortLevel)).to.eq(10);
+    });
+  });
+
+  describe("access tokens", function () {
+    it("mints a token holding the rider's encrypted preferences", async function () {
+      await expect(mintAccess(signers.alice, "car-7", [70, 60, 22, 50]))
+        .to.emit(davContract, "AccessMinted")
+        .withArgs(1, signers.alice.address, "car-7", false);
+
+      expect(await davContract.ownerOf(1)).to.eq(signers.alice.address);
+      expect(await davContract.tokenOfOwnerByIndex(signers.alice.address, 0)).to.eq(1);
+
+      const token = await davContract.accessTokens(1);
+      expect(token.vehicleId).to.eq("car-7");
+      expect(token.revoked).to.eq(false);
+
+      const prefs = await davContract.getTokenPreferences(1);
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, davContractAddress, signers.alice);
+      expect(await decrypt(prefs.drivingStyle)).to.eq(70);
+      expect(await decrypt(prefs.routePreference)).to.eq(60);
+      expect(await decrypt(prefs.comfortLevel)).to.eq(22);
+      expect(await decrypt(prefs.musicVolume)).to.eq(50);
+    });
+
+    it("grants the new holder access on transfer", async function () {
+      await mintAccess(signers.alice, "car-7", [70, 60, 22, 50]);
+      await davContract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 1);
+
+      const prefs = await davContract.getTokenPreferences(1);
+      const clear = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        prefs.drivingStyle,
+        davContractAddress,
+        signers.bob,
+      );
+      expect(clear).to.eq(70);
+    });
+
+    it("enumerates records per holder", async function () {
+      expect(await davContract.recordCount()).to.eq(0);
+      expect(await davContract.recordsOf(signers.alice.address)).to.deep.eq([]);
+
+      await mintAccess(signers.alice, "car-7", [70, 60, 22, 50]);
+      await mintAccess(signers.bob, "car-8", [70, 60, 22, 50]);
+      await mintAccess(signers.alice, "car-9", [70, 60, 22, 50]);
+
+      expect(await davContract.recordCount()).to.eq(3);
+      expect(await davContract.recordsOf(signers.alice.address)).to.deep.eq([1n, 3n]);
+      expect(await davContract.recordsOf(signers.bob.address)).to.deep.eq([2n]);
+
+      await davContract.connect(signers.alice).transferFrom(signers.alice.address, signers.bob.address, 1);
+      expect(await davContract.recordsOf(signers.alice.address)).to.deep.eq([3n]);
+      expect(await davContract.recordsOf(signers.bob.address)).to.deep.eq([2n, 1n]);
+    });
+
+    it("lets only the holder move a record", async function () {
+      await mintAccess(signers.alice, "car-7", [70, 60, 22, 50]);
+      await expect(
+        davContract.connect(signers.bob).transferFrom(signers.alice.address, signers.bob.address, 1),
+      ).to.be.revertedWithCustomError(davContract, "ERC721InsufficientApproval");
+    });
+
+    it("revokes access by holder or owner only", async function () {
+      await mintAccess(signers.alice, "car-7", [70, 60, 22, 50]);
+      await mintAccess(signers.alice, "car-8", [70, 60, 22, 50]);
+
+      await expect(davContract.connect(signers.bob).revokeAccess(1)).to.be.revertedWithCustomError(
+        davContract,
+        "NotTokenHolder",
+      );
+      await expect(davContract.connect(signers.alice).revokeAccess(1))
+        .to.emit(davContract, "AccessRevoked")
+        .withArgs(1, signers.alice.address);
+      await expect(davContract.revokeAccess(2)).to.emit(davContract, "AccessRevoked").withArgs(2, signers.deployer.address);
+
+      expect((await davContract.accessTokens(1)).revoked).to.eq(true);
+      await expect(davContract.connect(signers.alice).revokeAccess(1)).to.be.revertedWithCustomError(
+        davContract,
+        "TokenRevoked",
+      );
+    });
+  });
+
+  describe("access check", function () {
+    it("only checks closed batches", async function () {
+      await expect(davContract["requestAccessCheck(uint256)"](0)).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+      await expect(davContract["requestAccessCheck(uint256)"](1)).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+
+      await davContract.openBatch();
+      await updateAccessScore(signers.deployer, 65);
+      await expect(davContract["requestAccessCheck(uint256)"](1)).to.be.revertedWithCustomError(davContract, "InvalidBatch");
+
+      await davContract.closeBatch();
+      await expect(davContract["requestAccessCheck(uint256)"](1)).to.emit(davContract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("requires an initialised access score", async function () {
+      await davContract.openBatch();
+      await submitPreferences(signers.deployer, [1, 2, 3]);
+      await davContract.closeBatch();
+      await expect(davContract["requestAccessCheck(uint256)"](1)).to.be.revertedWithCustomError(davContract, "NotInitialized");
+    });
+
+    it("publishes only the access decision", async function () {
+      await seedBatch();
+      const requestId = await requestAccessCheck(signers.alice, 1);
+
+      const context = await davContract.decryptionContexts(requestId);
+      expect(context.batchId).to.eq(1);
+      expect(context.processed).to.eq(false);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const processed = await davContract.decryptionContexts(requestId);
+      expect(processed.processed).to.eq(true);
+      expect(processed.accessGranted).to.eq(true);
+
+      const events = await davContract.queryFilter(davContract.filters.DecryptionCompleted(requestId));
+      expect(events).to.have.length(1);
+      // Only the decision is published; no preference or score cleartexts
+      expect(events[0].args).to.have.length(3);
+      expect(events[0].args.batchId).to.eq(1);
+      expect(events[0].args.accessGranted).to.eq(true);
+    });
+
+    it("denies access below the threshold", async function () {
+      await seedBatch(49);
+      const requestId = await requestAccessCheck(signers.alice, 1);
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await davContract.decryptionContexts(requestId)).accessGranted).to.eq(false);
+    });
+
+    it("keeps the aggregates encrypted after the check", async function () {
+      await seedBatch();
+      const handle = (await davContract.getBatchAggregates(1)).accessScore;
+      await requestAccessCheck(signers.alice, 1);
+      await fhevm.awaitDecryptionOracle();
+
+      // Publicly decrypting the score itself is not permitted
+      let published = true;
+      try {
+        await fhevm.publicDecryptEuint(FhevmType.euint32, handle);
+      } catch {
+        published = false;
+      }
+      expect(published).to.eq(false);
+    });
+
+    it("rejects a replayed callback", async function () {
+      await seedBatch();
+      const requestId = await requestAccessCheck(signers.alice, 1);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(davContract.myCallback(requestId, "0x", "0x")).to.be.revertedWithCustomError(
+        davContract,
+        "ReplayAttempt",
+      );
+    });
+
+    it("rejects a callback after the ciphertexts changed", async function () {
+      await setClassThreshold(signers.deployer, "premium", 80);
+      await seedBatch();
+      const requestId = await requestAccessCheck(signers.alice, 1, "premium");
+
+      await setClassThreshold(signers.deployer, "premium", 60);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+      await expect(davContract.myCallback(requestId, cleartexts, "0x")).to.be.revertedWithCustomError(
+        davContract,
+        "StateMismatch",
+      );
+      // The oracle's own answer is rejected the same way
+      await expect(fhevm.awaitDecryptionOracle()).to.be.revertedWithCustomError(davContract, "StateMismatch");
+    });
+
+    it("rejects a malformed or unsigned decryption result", async function () {
+      await seedBatch();
+      const requestId = await requestAccessCheck(signers.alice, 1);
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+      await expect(
+        davContract.myCallback(requestId, ethers.concat([cleartexts, cleartexts]), "0x"),
+      ).to.be.revertedWithCustomError(davContract, "InvalidProof");
+
+      await expect(davContract.myCallback(requestId, cleartexts, "0x")).to.be.reverted;
+
+      // The genuine oracle response still goes through
+      await fhevm.awaitDecryptionOracle();
+      expect((await davContract.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+  });
+
+  describe("vehicle class thresholds", function () {
+    it("lets only the owner set encrypted thresholds", async function () {
+      await expect(setClassThreshold(signers.alice, "premium", 80)).to.be.revertedWithCustomError(
+        davContract,
+        "NotOwner",
+      );
+      await expect(setClassThreshold(signers.deployer, "", 80)).to.be.revertedWithCustomError(
+        davContract,
+        "UnknownVehicleClass",
+      );
+
+      await expect(setClassThreshold(signers.deployer, "premium", 80))
+        .to.emit(davContract, "ClassThresholdSet")
+        .withArgs("premium");
+      await setClassThreshold(signers.deployer, "economy", 40);
+      await setClassThreshold(signers.deployer, "premium", 85);
+
+      expect(await davContract.getVehicleClasses()).to.deep.eq(["premium", "economy"]);
+      expect(await decryptAggregate(await davContract.getClassThreshold("premium"))).to.eq(85);
+    });
+
+    it("compares the score against the class threshold", async function () {
+      await setClassThreshold(signers.deployer, "economy", 40);
+      await setClassThreshold(signers.deployer, "premium", 80);
+      await seedBatch();
+      await davContract.setCooldownSeconds(0);
+
+      const economy = await requestAccessCheck(signers.alice, 1, "economy");
+      const premium = await requestAccessCheck(signers.alice, 1, "premium");
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await davContract.decryptionContexts(economy)).accessGranted).to.eq(true);
+      expect((await davContract.decryptionContexts(premium)).accessGranted).to.eq(false);
+      expect((await davContract.decryptionContexts(premium)).vehicleClass).to.eq("premium");
+    });
+
+    it("rejects checks against an unknown class", async function () {
+      await seedBatch();
+      await expect(
+        davContract.connect(signers.alice)["requestAccessCheck(uint256,string)"](1, "limousine"),
+      ).to.be.revertedWithCustomError(davContract, "UnknownVehicleClass");
+    });
+
+    it("keeps thresholds hidden from riders", async function () {
+      await setClassThreshold(signers.deployer, "premium", 80);
+
+      let decrypted = true;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          await davContract.getClassThreshold("premium"),
+          davContractAddress,
+          signers.alice,
+        );
+      } catch {
+        decrypted = false;
+      }
+      expect(decrypted).to.eq(false);
+    });
+  });
+});
+
+// Ciphertext handles are opaque, so event assertions only check that one is present
+function anyHandle(value: unknown) {
+  return typeof value === "string" && ethers.isHexString(value, 32);
+}
@@ -0,0 +1,286 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import { ethers, fhevm } from "hardhat";
+import { EventIndexer } from "../indexer/indexer";
+import { createServer } from "../indexer/server";
+import { EventStore } from "../indexer/store";
+import { DavAccessNFT_FHE, DavAccessNFT_FHE__factory, UniversalAdapter, UniversalAdapter__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const davFactory = (await ethers.getContractFactory("DavAccessNFT_FHE")) as DavAccessNFT_FHE__factory;
+  const davContract = (await davFactory.deploy()) as DavAccessNFT_FHE;
+  const adapterFactory = (await ethers.getContractFactory("UniversalAdapter")) as UniversalAdapter__factory;
+  const adapter = (await adapterFactory.deploy()) as UniversalAdapter;
+
+  return { davContract, davContractAddress: await davContract.getAddress(), adapter };
+}
+
+describe("Event indexer", function () {
+  let signers: Signers;
+  let davContract: DavAccessNFT_FHE;
+  let davContractAddress: string;
+  let adapter: UniversalAdapter;
+  let store: EventStore;
+  let indexer: EventIndexer;
+
+  async function encryptValues(signer: HardhatEthersSigner, values: number[]) {
+    const input = fhevm.createEncryptedInput(davContractAddress, signer.address);
+    for (const value of values) {
+      input.add32(value);
+    }
+    return input.encrypt();
+  }
+
+  async function mintAccess(signer: HardhatEthersSigner, vehicleId: string) {
+    const encrypted = await encryptValues(signer, [1, 2, 3, 4]);
+    return davContract
+      .connect(signer)
+      .mintAccess(vehicleId, false, encrypted.handles[0], encrypted.handles[1], encrypted.handles[2], encrypted.handles[3], encrypted.inputProof);
+  }
+
+  async function seedBatch() {
+    await davContract.openBatch();
+    const preferences = await encryptValues(signers.deployer, [70, 40, 20]);
+    await davContract["submitPreferences(bytes32,bytes32,bytes32,bytes)"](
+      preferences.handles[0],
+      preferences.handles[1],
+      preferences.handles[2],
+      preferences.inputProof,
+    );
+    await davContract.setCooldownSeconds(0);
+    const score = await encryptValues(signers.deployer, [65]);
+    await davContract["updateAccessScore(bytes32,bytes)"](score.handles[0], score.inputProof);
+    await davContract.closeBatch();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ davContract, davContractAddress, adapter } = await deployFixture());
+    store = new EventStore(":memory:");
+    indexer = new EventIndexer(ethers.provider, store, {
+      davAccessNFTAddress: davContractAddress,
+      universalAdapterAddress: await adapter.getAddress(),
+      startBlock: await ethers.provider.getBlockNumber(),
+      confirmations: 0,
+      maxBlockRange: 3,
+    });
+  });
+
+  afterEach(function () {
+    store?.close();
+  });
+
+  it("tracks records by holder across transfers and revocations", async function () {
+    await mintAccess(signers.alice, "car-1");
+    await mintAccess(signers.alice, "car-2");
+    await davContract.connect(signers.alice).transferFrom(signers.alice.address, signers.deployer.address, 2);
+    await davContract.connect(signers.alice).revokeAccess(1);
+    await indexer.syncOnce();
+
+    const aliceRecords = store.recordsOf(signers.alice.address);
+    expect(aliceRecords).to.have.length(1);
+    expect(aliceRecords[0]).to.include({ tokenId: "1", vehicleId: "car-1", permanent: false, revoked: true });
+    expect(store.recordsOf(signers.deployer.address).map((record) => record.tokenId)).to.deep.eq(["2"]);
+  });
+
+  it("builds a batch timeline and follows a decryption to completion", async function () {
+    await seedBatch();
+    const tx = await davContract["requestAccessCheck(uint256)"](1);
+    const receipt = await tx.wait();
+    const requestId = davContract.interface.parseLog(receipt!.logs.at(-1)!)!.args.requestId.toString();
+
+    await indexer.syncOnce();
+    expect(store.decryption(requestId)).to.include({ batchId: "1", status: "pending", accessGranted: null });
+
+    await fhevm.awaitDecryptionOracle();
+    await indexer.syncOnce();
+
+    expect(store.batchTimeline("1").map((entry) => entry.name)).to.deep.eq([
+      "BatchOpened",
+      "PreferencesSubmitted",
+      "AccessScoreUpdated",
+      "BatchClosed",
+      "DecryptionRequested",
+      "DecryptionCompleted",
+    ]);
+    expect(store.decryption(requestId)).to.include({ status: "completed", accessGranted: true });
+    expect(store.decryption("999")).to.eq(null);
+  });
+
+  it("resumes from its cursor without duplicating events", async function () {
+    await adapter.connect(signers.alice).setData("dav_record_1", ethers.toUtf8Bytes("active"));
+    expect(await indexer.syncOnce()).to.eq(1);
+    expect(await indexer.syncOnce()).to.eq(0);
+
+    await adapter.connect(signers.alice).setData("dav_record_1", ethers.toUtf8Bytes("revoked"));
+    expect(await indexer.syncOnce()).to.eq(1);
+
+    const history = store.keyHistory("dav_record_1");
+    expect(history).to.have.length(2);
+    expect(history[1].args.previousValueHash).to.eq(ethers.keccak256(ethers.toUtf8Bytes("active")));
+  });
+
+  describe("reorgs and backfill", function () {
+    async function snapshot(): Promise<string> {
+      return ethers.provider.send("evm_snapshot", []);
+    }
+
+    async function revertTo(id: string) {
+      await ethers.provider.send("evm_revert", [id]);
+    }
+
+    it("rolls back events from blocks replaced at the same height", async function () {
+      await mintAccess(signers.alice, "car-1");
+      await indexer.syncOnce();
+
+      const id = await snapshot();
+      await mintAccess(signers.alice, "car-2");
+      await indexer.syncOnce();
+      expect(store.recordsOf(signers.alice.address)).to.have.length(2);
+
+      await revertTo(id);
+      await mintAccess(signers.deployer, "car-3");
+      await indexer.syncOnce();
+
+      expect(store.recordsOf(signers.alice.address).map((record) => record.vehicleId)).to.deep.eq(["car-1"]);
+      expect(store.recordsOf(signers.deployer.address).map((record) => record.vehicleId)).to.deep.eq(["car-3"]);
+      const head = await ethers.provider.getBlock("latest");
+      expect(store.getCheckpoint()).to.deep.eq({ blockNumber: head!.number, blockHash: head!.hash });
+    });
+
+    it("detects a longer fork through parent hashes after a restart", async function () {
+      const adapterAddress = await adapter.getAddress();
+      await adapter.connect(signers.alice).setData("dav_record_1", ethers.toUtf8Bytes("active"));
+      await indexer.syncOnce();
+
+      const id = await snapshot();
+      await adapter.connect(signers.alice).setData("dav_record_1", ethers.toUtf8Bytes("revoked"));
+      await adapter.connect(signers.alice).setData("dav_record_2", ethers.toUtf8Bytes("active"));
+      await indexer.syncOnce();
+      expect(store.keyHistory("dav_record_1")).to.have.length(2);
+
+      await revertTo(id);
+      await adapter.connect(signers.bob).setData("dav_record_3", ethers.toUtf8Bytes("active"));
+      for (let i = 0; i < 3; i++) await ethers.provider.send("evm_mine", []);
+
+      const restarted = new EventIndexer(ethers.provider, store, {
+        davAccessNFTAddress: davContractAddress,
+        universalAdapterAddress: adapterAddress,
+        startBlock: 0,
+        confirmations: 0,
+        maxBlockRange: 3,
+      });
+      await restarted.syncOnce();
+
+      expect(store.keyHistory("dav_record_1")).to.have.length(1);
+      expect(store.keyHistory("dav_record_2")).to.have.length(0);
+      expect(store.keyHistory("dav_record_3")).to.have.length(1);
+      expect(store.getCursor()).to.eq(await ethers.provider.getBlockNumber());
+    });
+
+    it("shrinks the block range when the RPC reports too many results", async function () {
+      for (let i = 0; i < 4; i++) {
+        await adapter.connect(signers.alice).setData(`dav_record_${i}`, ethers.toUtf8Bytes("active"));
+      }
+
+      let rejected = 0;
+      const limited = new Proxy(ethers.provider, {
+        get(target, prop, receiver) {
+          if (prop === "getLogs") {
+            return async (filter: { fromBlock: number; toBlock: number }) => {
+              if (filter.toBlock - filter.fromBlock + 1 > 2) {
+                rejected++;
+                throw new Error("query returned more than 10000 results");
+              }
+              return target.getLogs(filter);
+            };
+          }
+          const value = Reflect.get(target, prop, receiver);
+          return typeof value === "function" ? value.bind(target) : value;
+        },
+      });
+
+      const adaptive = new EventIndexer(limited, store, {
+        davAccessNFTAddress: davContractAddress,
+        universalAdapterAddress: await adapter.getAddress(),
+        startBlock: (await ethers.provider.getBlockNumber()) - 4,
+        confirmations: 0,
+        maxBlockRange: 16,
+      });
+
+      expect(await adaptive.syncOnce()).to.eq(4);
+      expect(rejected).to.be.greaterThan(0);
+    });
+
+    it("does not retry errors unrelated to the range size", async function () {
+      await adapter.connect(signers.alice).setData("dav_record_1", ethers.toUtf8Bytes("active"));
+      const failing = new Proxy(ethers.provider, {
+        get(target, prop, receiver) {
+          if (prop === "getLogs") {
+            return async () => {
+              throw new Error("connection refused");
+            };
+          }
+          const value = Reflect.get(target, prop, receiver);
+          return typeof value === "function" ? value.bind(target) : value;
+        },
+      });
+      const broken = new EventIndexer(failing, store, {
+        davAccessNFTAddress: davContractAddress,
+        universalAdapterAddress: await adapter.getAddress(),
+        startBlock: 0,
+        confirmations: 0,
+        maxBlockRange: 16,
+      });
+
+      let failed = false;
+      try {
+        await broken.syncOnce();
+      } catch (e) {
+        failed = (e as Error).message === "connection refused";
+      }
+      expect(failed).to.eq(true);
+      expect(store.getCheckpoint()).to.eq(null);
+    });
+  });
+
+  it("serves the stored views over HTTP", async function () {
+    await mintAccess(signers.alice, "car-1");
+    await indexer.syncOnce();
+
+    const server = createServer(store).listen(0);
+    try {
+      const { port } = server.address() as AddressInfo;
+      const base = `http://127.0.0.1:${port}`;
+
+      const health = (await (await fetch(`${base}/health`)).json()) as { lastBlock: number };
+      expect(health.lastBlock).to.eq(store.getCursor());
+
+      const records = (await (await fetch(`${base}/records/${signers.alice.address}`)).json()) as Array<{ tokenId: string }>;
+      expect(records.map((record) => record.tokenId)).to.deep.eq(["1"]);
+
+      expect((await fetch(`${base}/records/not-an-address`)).status).to.eq(400);
+      expect((await fetch(`${base}/decryptions/42`)).status).to.eq(404);
+      expect((await fetch(`${base}/unknown`)).status).to.eq(404);
+      expect((await fetch(`${base}/keys/%E0%A4%A/history`)).status).to.eq(400);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { UniversalAdapter, UniversalAdapter__factory } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("UniversalAdapter")) as UniversalAdapter__factory;
+  const adapter = (await factory.deploy()) as UniversalAdapter;
+
+  return { adapter };
+}
+
+describe("UniversalAdapter", function () {
+  let signers: Signers;
+  let adapter: UniversalAdapter;
+
+  const key = "dav_record_1";
+  const first = ethers.toUtf8Bytes("active");
+  const second = ethers.toUtf8Bytes("revoked");
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    ({ adapter } = await deployFixture());
+  });
+
+  it("gives a key to its first writer", async function () {
+    await expect(adapter.connect(signers.alice).setData(key, first))
+      .to.emit(adapter, "KeyOwnershipTransferred")
+      .withArgs(key, ethers.ZeroAddress, signers.alice.address)
+      .and.to.emit(adapter, "DataStored")
+      .withArgs(signers.alice.address, key, ethers.hexlify(first), ethers.ZeroHash);
+
+    expect(await adapter.keyOwner(key)).to.eq(signers.alice.address);
+    expect(await adapter.getData(key)).to.eq(ethers.hexlify(first));
+  });
+
+  it("reports the hash of the value being overwritten", async function () {
+    await adapter.connect(signers.alice).setData(key, first);
+
+    await expect(adapter.connect(signers.alice).setData(key, second))
+      .to.emit(adapter, "DataStored")
+      .withArgs(signers.alice.address, key, ethers.hexlify(second), ethers.keccak256(first));
+    expect(await adapter.getData(key)).to.eq(ethers.hexlify(second));
+  });
+
+  it("rejects writes by anyone but the key owner", async function () {
+    await adapter.connect(signers.alice).setData(key, first);
+
+    await expect(adapter.connect(signers.bob).setData(key, second))
+      .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+      .withArgs(key, signers.alice.address);
+    expect(await adapter.getData(key)).to.eq(ethers.hexlify(first));
+  });
+
+  it("transfers key ownership", async function () {
+    await adapter.connect(signers.alice).setData(key, first);
+
+    await expect(adapter.connect(signers.bob).transferKeyOwnership(key, signers.bob.address))
+      .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+      .withArgs(key, signers.alice.address);
+    await expect(adapter.connect(signers.alice).transferKeyOwnership(key, ethers.ZeroAddress)).to.be.revertedWithCustomError(
+      adapter,
+      "InvalidKeyOwner",
+    );
+
+    await expect(adapter.connect(signers.alice).transferKeyOwnership(key, signers.bob.address))
+      .to.emit(adapter, "KeyOwnershipTransferred")
+      .withArgs(key, signers.alice.address, signers.bob.address);
+
+    await expect(adapter.connect(signers.alice).setData(key, second)).to.be.revertedWithCustomError(adapter, "NotKeyOwner");
+    await adapter.connect(signers.bob).setData(key, second);
+    expect(await adapter.getData(key)).to.eq(ethers.hexlify(second));
+  });
+
+  it("does not let a transfer claim an unowned key", async function () {
+    await expect(adapter.connect(signers.alice).transferKeyOwnership(key, signers.alice.address))
+      .to.be.revertedWithCustomError(adapter, "NotKeyOwner")
+      .withArgs(key, ethers.ZeroAddress);
+  });
+});
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC721Enumerable } from "./ERC721Enumerable";
+export type { IERC721Enumerable } from "./IERC721Enumerable";
+export type { IERC721Metadata } from "./IERC721Metadata";
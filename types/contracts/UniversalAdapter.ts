@@ -24,36 +24,86 @@ import type {
 
 export interface UniversalAdapterInterface extends Interface {
   getFunction(
-    nameOrSignature: "getData" | "isAvailable" | "setData"
+    nameOrSignature:
+      | "getData"
+      | "isAvailable"
+      | "keyOwner"
+      | "setData"
+      | "transferKeyOwnership"
   ): FunctionFragment;
 
-  getEvent(nameOrSignatureOrTopic: "DataStored"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "DataStored" | "KeyOwnershipTransferred"
+  ): EventFragment;
 
   encodeFunctionData(functionFragment: "getData", values: [string]): string;
   encodeFunctionData(
     functionFragment: "isAvailable",
     values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "keyOwner", values: [string]): string;
   encodeFunctionData(
     functionFragment: "setData",
     values: [string, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "transferKeyOwnership",
+    values: [string, AddressLike]
+  ): string;
 
   decodeFunctionResult(functionFragment: "getData", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isAvailable",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "keyOwner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "setData", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferKeyOwnership",
+    data: BytesLike
+  ): Result;
 }
 
 export namespace DataStoredEvent {
-  export type InputTuple = [sender: AddressLike, key: string, value: BytesLike];
-  export type OutputTuple = [sender: string, key: string, value: string];
+  export type InputTuple = [
+    sender: AddressLike,
+    key: string,
+    value: BytesLike,
+    previousValueHash: BytesLike
+  ];
+  export type OutputTuple = [
+    sender: string,
+    key: string,
+    value: string,
+    previousValueHash: string
+  ];
   export interface OutputObject {
     sender: string;
     key: string;
     value: string;
+    previousValueHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KeyOwnershipTransferredEvent {
+  export type InputTuple = [
+    key: string,
+    previousOwner: AddressLike,
+    newOwner: AddressLike
+  ];
+  export type OutputTuple = [
+    key: string,
+    previousOwner: string,
+    newOwner: string
+  ];
+  export interface OutputObject {
+    key: string;
+    previousOwner: string;
+    newOwner: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -108,12 +158,20 @@ export interface UniversalAdapter extends BaseContract {
 
   isAvailable: TypedContractMethod<[], [boolean], "view">;
 
+  keyOwner: TypedContractMethod<[arg0: string], [string], "view">;
+
   setData: TypedContractMethod<
     [key: string, value: BytesLike],
     [void],
     "nonpayable"
   >;
 
+  transferKeyOwnership: TypedContractMethod<
+    [key: string, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -124,9 +182,19 @@ export interface UniversalAdapter extends BaseContract {
   getFunction(
     nameOrSignature: "isAvailable"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "keyOwner"
+  ): TypedContractMethod<[arg0: string], [string], "view">;
   getFunction(
     nameOrSignature: "setData"
   ): TypedContractMethod<[key: string, value: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferKeyOwnership"
+  ): TypedContractMethod<
+    [key: string, newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
   getEvent(
     key: "DataStored"
@@ -135,9 +203,16 @@ export interface UniversalAdapter extends BaseContract {
     DataStoredEvent.OutputTuple,
     DataStoredEvent.OutputObject
   >;
+  getEvent(
+    key: "KeyOwnershipTransferred"
+  ): TypedContractEvent<
+    KeyOwnershipTransferredEvent.InputTuple,
+    KeyOwnershipTransferredEvent.OutputTuple,
+    KeyOwnershipTransferredEvent.OutputObject
+  >;
 
   filters: {
-    "DataStored(address,string,bytes)": TypedContractEvent<
+    "DataStored(address,string,bytes,bytes32)": TypedContractEvent<
       DataStoredEvent.InputTuple,
       DataStoredEvent.OutputTuple,
       DataStoredEvent.OutputObject
@@ -147,5 +222,16 @@ export interface UniversalAdapter extends BaseContract {
       DataStoredEvent.OutputTuple,
       DataStoredEvent.OutputObject
     >;
+
+    "KeyOwnershipTransferred(string,address,address)": TypedContractEvent<
+      KeyOwnershipTransferredEvent.InputTuple,
+      KeyOwnershipTransferredEvent.OutputTuple,
+      KeyOwnershipTransferredEvent.OutputObject
+    >;
+    KeyOwnershipTransferred: TypedContractEvent<
+      KeyOwnershipTransferredEvent.InputTuple,
+      KeyOwnershipTransferredEvent.OutputTuple,
+      KeyOwnershipTransferredEvent.OutputObject
+    >;
   };
 }
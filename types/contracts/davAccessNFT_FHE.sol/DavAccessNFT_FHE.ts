@@ -0,0 +1,1991 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace DavAccessNFT_FHE {
+  export type BatchAggregatesStruct = {
+    drivingStyle: BytesLike;
+    routePreference: BytesLike;
+    comfortLevel: BytesLike;
+    accessScore: BytesLike;
+  };
+
+  export type BatchAggregatesStructOutput = [
+    drivingStyle: string,
+    routePreference: string,
+    comfortLevel: string,
+    accessScore: string
+  ] & {
+    drivingStyle: string;
+    routePreference: string;
+    comfortLevel: string;
+    accessScore: string;
+  };
+
+  export type BatchResultStruct = {
+    decided: boolean;
+    accessGranted: boolean;
+    requestId: BigNumberish;
+    vehicleClass: string;
+  };
+
+  export type BatchResultStructOutput = [
+    decided: boolean,
+    accessGranted: boolean,
+    requestId: bigint,
+    vehicleClass: string
+  ] & {
+    decided: boolean;
+    accessGranted: boolean;
+    requestId: bigint;
+    vehicleClass: string;
+  };
+
+  export type BatchSummaryStruct = {
+    batchId: BigNumberish;
+    submissionCount: BigNumberish;
+    closed: boolean;
+    finalized: boolean;
+    aggregates: DavAccessNFT_FHE.BatchAggregatesStruct;
+    result: DavAccessNFT_FHE.BatchResultStruct;
+  };
+
+  export type BatchSummaryStructOutput = [
+    batchId: bigint,
+    submissionCount: bigint,
+    closed: boolean,
+    finalized: boolean,
+    aggregates: DavAccessNFT_FHE.BatchAggregatesStructOutput,
+    result: DavAccessNFT_FHE.BatchResultStructOutput
+  ] & {
+    batchId: bigint;
+    submissionCount: bigint;
+    closed: boolean;
+    finalized: boolean;
+    aggregates: DavAccessNFT_FHE.BatchAggregatesStructOutput;
+    result: DavAccessNFT_FHE.BatchResultStructOutput;
+  };
+
+  export type PreferenceStatsStruct = {
+    mean: BytesLike;
+    min: BytesLike;
+    max: BytesLike;
+  };
+
+  export type PreferenceStatsStructOutput = [
+    mean: string,
+    min: string,
+    max: string
+  ] & { mean: string; min: string; max: string };
+
+  export type BatchStatisticsStruct = {
+    finalized: boolean;
+    drivingStyle: DavAccessNFT_FHE.PreferenceStatsStruct;
+    routePreference: DavAccessNFT_FHE.PreferenceStatsStruct;
+    comfortLevel: DavAccessNFT_FHE.PreferenceStatsStruct;
+  };
+
+  export type BatchStatisticsStructOutput = [
+    finalized: boolean,
+    drivingStyle: DavAccessNFT_FHE.PreferenceStatsStructOutput,
+    routePreference: DavAccessNFT_FHE.PreferenceStatsStructOutput,
+    comfortLevel: DavAccessNFT_FHE.PreferenceStatsStructOutput
+  ] & {
+    finalized: boolean;
+    drivingStyle: DavAccessNFT_FHE.PreferenceStatsStructOutput;
+    routePreference: DavAccessNFT_FHE.PreferenceStatsStructOutput;
+    comfortLevel: DavAccessNFT_FHE.PreferenceStatsStructOutput;
+  };
+}
+
+export interface DavAccessNFT_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ACCESS_THRESHOLD"
+      | "accessTokens"
+      | "addProvider"
+      | "approve"
+      | "balanceOf"
+      | "batchOpen"
+      | "batchResults"
+      | "batchSubmissionCount"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "finalizeBatch"
+      | "getApproved"
+      | "getBatch"
+      | "getBatchAggregates"
+      | "getBatchStatistics"
+      | "getClassThreshold"
+      | "getTokenPreferences"
+      | "getVehicleClasses"
+      | "isApprovedForAll"
+      | "isBatchClosed"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "lastTokenId"
+      | "mintAccess"
+      | "myCallback"
+      | "name"
+      | "openBatch"
+      | "owner"
+      | "ownerOf"
+      | "pause"
+      | "paused"
+      | "protocolId"
+      | "recordCount"
+      | "recordsOf"
+      | "removeProvider"
+      | "requestAccessCheck(uint256,string)"
+      | "requestAccessCheck(uint256)"
+      | "revokeAccess"
+      | "safeTransferFrom(address,address,uint256)"
+      | "safeTransferFrom(address,address,uint256,bytes)"
+      | "setApprovalForAll"
+      | "setClassThreshold"
+      | "setCooldownSeconds"
+      | "submitPreferences(bytes32,bytes32,bytes32,bytes)"
+      | "submitPreferences(bytes32,bytes32,bytes32)"
+      | "supportsInterface"
+      | "symbol"
+      | "tokenByIndex"
+      | "tokenOfOwnerByIndex"
+      | "tokenURI"
+      | "totalSupply"
+      | "transferFrom"
+      | "transferOwnership"
+      | "unpause"
+      | "updateAccessScore(bytes32)"
+      | "updateAccessScore(bytes32,bytes)"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AccessMinted"
+      | "AccessRevoked"
+      | "AccessScoreUpdated"
+      | "Approval"
+      | "ApprovalForAll"
+      | "BatchClosed"
+      | "BatchFinalized"
+      | "BatchOpened"
+      | "ClassThresholdSet"
+      | "CooldownSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PreferencesSubmitted"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "Transfer"
+      | "Unpaused"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ACCESS_THRESHOLD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accessTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "balanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "batchOpen", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "batchResults",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchSubmissionCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchAggregates",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchStatistics",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getClassThreshold",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTokenPreferences",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVehicleClasses",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isBatchClosed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastTokenId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "mintAccess",
+    values: [
+      string,
+      boolean,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordsOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAccessCheck(uint256,string)",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAccessCheck(uint256)",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeAccess",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    values: [AddressLike, AddressLike, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setClassThreshold",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPreferences(bytes32,bytes32,bytes32,bytes)",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitPreferences(bytes32,bytes32,bytes32)",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenByIndex",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenOfOwnerByIndex",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "updateAccessScore(bytes32)",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateAccessScore(bytes32,bytes)",
+    values: [BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "ACCESS_THRESHOLD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "accessTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "batchOpen", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchResults",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchSubmissionCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchStatistics",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getClassThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTokenPreferences",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVehicleClasses",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isBatchClosed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastTokenId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "mintAccess", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "recordsOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAccessCheck(uint256,string)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAccessCheck(uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom(address,address,uint256,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setClassThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPreferences(bytes32,bytes32,bytes32,bytes)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitPreferences(bytes32,bytes32,bytes32)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenOfOwnerByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "updateAccessScore(bytes32)",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateAccessScore(bytes32,bytes)",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AccessMintedEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    holder: AddressLike,
+    vehicleId: string,
+    permanent: boolean
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    holder: string,
+    vehicleId: string,
+    permanent: boolean
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    holder: string;
+    vehicleId: string;
+    permanent: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AccessRevokedEvent {
+  export type InputTuple = [tokenId: BigNumberish, revokedBy: AddressLike];
+  export type OutputTuple = [tokenId: bigint, revokedBy: string];
+  export interface OutputObject {
+    tokenId: bigint;
+    revokedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AccessScoreUpdatedEvent {
+  export type InputTuple = [
+    updater: AddressLike,
+    batchId: BigNumberish,
+    accessScore: BytesLike
+  ];
+  export type OutputTuple = [
+    updater: string,
+    batchId: bigint,
+    accessScore: string
+  ];
+  export interface OutputObject {
+    updater: string;
+    batchId: bigint;
+    accessScore: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    approved: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, approved: string, tokenId: bigint];
+  export interface OutputObject {
+    owner: string;
+    approved: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalForAllEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    operator: AddressLike,
+    approved: boolean
+  ];
+  export type OutputTuple = [
+    owner: string,
+    operator: string,
+    approved: boolean
+  ];
+  export interface OutputObject {
+    owner: string;
+    operator: string;
+    approved: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchFinalizedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ClassThresholdSetEvent {
+  export type InputTuple = [vehicleClass: string];
+  export type OutputTuple = [vehicleClass: string];
+  export interface OutputObject {
+    vehicleClass: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    accessGranted: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    accessGranted: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    accessGranted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    stateHash: BytesLike
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    stateHash: string
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    stateHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PreferencesSubmittedEvent {
+  export type InputTuple = [
+    submitter: AddressLike,
+    batchId: BigNumberish,
+    drivingStyle: BytesLike,
+    routePreference: BytesLike,
+    comfortLevel: BytesLike
+  ];
+  export type OutputTuple = [
+    submitter: string,
+    batchId: bigint,
+    drivingStyle: string,
+    routePreference: string,
+    comfortLevel: string
+  ];
+  export interface OutputObject {
+    submitter: string;
+    batchId: bigint;
+    drivingStyle: string;
+    routePreference: string;
+    comfortLevel: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    tokenId: BigNumberish
+  ];
+  export type OutputTuple = [from: string, to: string, tokenId: bigint];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface DavAccessNFT_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): DavAccessNFT_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: DavAccessNFT_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ACCESS_THRESHOLD: TypedContractMethod<[], [bigint], "view">;
+
+  accessTokens: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, boolean, boolean, bigint] & {
+        vehicleId: string;
+        permanent: boolean;
+        revoked: boolean;
+        mintedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  approve: TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+
+  batchOpen: TypedContractMethod<[], [boolean], "view">;
+
+  batchResults: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, string] & {
+        decided: boolean;
+        accessGranted: boolean;
+        requestId: bigint;
+        vehicleClass: string;
+      }
+    ],
+    "view"
+  >;
+
+  batchSubmissionCount: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  closeBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, boolean, string] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        accessGranted: boolean;
+        vehicleClass: string;
+      }
+    ],
+    "view"
+  >;
+
+  finalizeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  getBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [DavAccessNFT_FHE.BatchSummaryStructOutput],
+    "view"
+  >;
+
+  getBatchAggregates: TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [string, string, string, string] & {
+        drivingStyle: string;
+        routePreference: string;
+        comfortLevel: string;
+        accessScore: string;
+      }
+    ],
+    "view"
+  >;
+
+  getBatchStatistics: TypedContractMethod<
+    [batchId: BigNumberish],
+    [DavAccessNFT_FHE.BatchStatisticsStructOutput],
+    "view"
+  >;
+
+  getClassThreshold: TypedContractMethod<
+    [vehicleClass: string],
+    [string],
+    "view"
+  >;
+
+  getTokenPreferences: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [
+      [string, string, string, string] & {
+        drivingStyle: string;
+        routePreference: string;
+        comfortLevel: string;
+        musicVolume: string;
+      }
+    ],
+    "view"
+  >;
+
+  getVehicleClasses: TypedContractMethod<[], [string[]], "view">;
+
+  isApprovedForAll: TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isBatchClosed: TypedContractMethod<
+    [batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastTokenId: TypedContractMethod<[], [bigint], "view">;
+
+  mintAccess: TypedContractMethod<
+    [
+      vehicleId: string,
+      permanent: boolean,
+      drivingStyle: BytesLike,
+      routePreference: BytesLike,
+      comfortLevel: BytesLike,
+      musicVolume: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  recordCount: TypedContractMethod<[], [bigint], "view">;
+
+  recordsOf: TypedContractMethod<[holder: AddressLike], [bigint[]], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  "requestAccessCheck(uint256,string)": TypedContractMethod<
+    [batchId: BigNumberish, vehicleClass: string],
+    [void],
+    "nonpayable"
+  >;
+
+  "requestAccessCheck(uint256)": TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeAccess: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setClassThreshold: TypedContractMethod<
+    [vehicleClass: string, threshold: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "submitPreferences(bytes32,bytes32,bytes32,bytes)": TypedContractMethod<
+    [
+      _drivingStyle: BytesLike,
+      _routePreference: BytesLike,
+      _comfortLevel: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  "submitPreferences(bytes32,bytes32,bytes32)": TypedContractMethod<
+    [
+      _drivingStyle: BytesLike,
+      _routePreference: BytesLike,
+      _comfortLevel: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  symbol: TypedContractMethod<[], [string], "view">;
+
+  tokenByIndex: TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+
+  tokenOfOwnerByIndex: TypedContractMethod<
+    [owner: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
+  totalSupply: TypedContractMethod<[], [bigint], "view">;
+
+  transferFrom: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  "updateAccessScore(bytes32)": TypedContractMethod<
+    [_accessScore: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  "updateAccessScore(bytes32,bytes)": TypedContractMethod<
+    [_accessScore: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ACCESS_THRESHOLD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "accessTokens"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, boolean, boolean, bigint] & {
+        vehicleId: string;
+        permanent: boolean;
+        revoked: boolean;
+        mintedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "approve"
+  ): TypedContractMethod<
+    [to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "balanceOf"
+  ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchOpen"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "batchResults"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [boolean, boolean, bigint, string] & {
+        decided: boolean;
+        accessGranted: boolean;
+        requestId: bigint;
+        vehicleClass: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchSubmissionCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean, boolean, string] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+        accessGranted: boolean;
+        vehicleClass: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getApproved"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [DavAccessNFT_FHE.BatchSummaryStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchAggregates"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [
+      [string, string, string, string] & {
+        drivingStyle: string;
+        routePreference: string;
+        comfortLevel: string;
+        accessScore: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchStatistics"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [DavAccessNFT_FHE.BatchStatisticsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getClassThreshold"
+  ): TypedContractMethod<[vehicleClass: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getTokenPreferences"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish],
+    [
+      [string, string, string, string] & {
+        drivingStyle: string;
+        routePreference: string;
+        comfortLevel: string;
+        musicVolume: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getVehicleClasses"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "isApprovedForAll"
+  ): TypedContractMethod<
+    [owner: AddressLike, operator: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isBatchClosed"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastTokenId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "mintAccess"
+  ): TypedContractMethod<
+    [
+      vehicleId: string,
+      permanent: boolean,
+      drivingStyle: BytesLike,
+      routePreference: BytesLike,
+      comfortLevel: BytesLike,
+      musicVolume: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "ownerOf"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordsOf"
+  ): TypedContractMethod<[holder: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestAccessCheck(uint256,string)"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, vehicleClass: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestAccessCheck(uint256)"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeAccess"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256)"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "safeTransferFrom(address,address,uint256,bytes)"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setApprovalForAll"
+  ): TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setClassThreshold"
+  ): TypedContractMethod<
+    [vehicleClass: string, threshold: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPreferences(bytes32,bytes32,bytes32,bytes)"
+  ): TypedContractMethod<
+    [
+      _drivingStyle: BytesLike,
+      _routePreference: BytesLike,
+      _comfortLevel: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitPreferences(bytes32,bytes32,bytes32)"
+  ): TypedContractMethod<
+    [
+      _drivingStyle: BytesLike,
+      _routePreference: BytesLike,
+      _comfortLevel: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "symbol"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenByIndex"
+  ): TypedContractMethod<[index: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "tokenOfOwnerByIndex"
+  ): TypedContractMethod<
+    [owner: AddressLike, index: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "tokenURI"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "totalSupply"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferFrom"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateAccessScore(bytes32)"
+  ): TypedContractMethod<[_accessScore: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "updateAccessScore(bytes32,bytes)"
+  ): TypedContractMethod<
+    [_accessScore: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AccessMinted"
+  ): TypedContractEvent<
+    AccessMintedEvent.InputTuple,
+    AccessMintedEvent.OutputTuple,
+    AccessMintedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AccessRevoked"
+  ): TypedContractEvent<
+    AccessRevokedEvent.InputTuple,
+    AccessRevokedEvent.OutputTuple,
+    AccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "AccessScoreUpdated"
+  ): TypedContractEvent<
+    AccessScoreUpdatedEvent.InputTuple,
+    AccessScoreUpdatedEvent.OutputTuple,
+    AccessScoreUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Approval"
+  ): TypedContractEvent<
+    ApprovalEvent.InputTuple,
+    ApprovalEvent.OutputTuple,
+    ApprovalEvent.OutputObject
+  >;
+  getEvent(
+    key: "ApprovalForAll"
+  ): TypedContractEvent<
+    ApprovalForAllEvent.InputTuple,
+    ApprovalForAllEvent.OutputTuple,
+    ApprovalForAllEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchFinalized"
+  ): TypedContractEvent<
+    BatchFinalizedEvent.InputTuple,
+    BatchFinalizedEvent.OutputTuple,
+    BatchFinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ClassThresholdSet"
+  ): TypedContractEvent<
+    ClassThresholdSetEvent.InputTuple,
+    ClassThresholdSetEvent.OutputTuple,
+    ClassThresholdSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSet"
+  ): TypedContractEvent<
+    CooldownSetEvent.InputTuple,
+    CooldownSetEvent.OutputTuple,
+    CooldownSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PreferencesSubmitted"
+  ): TypedContractEvent<
+    PreferencesSubmittedEvent.InputTuple,
+    PreferencesSubmittedEvent.OutputTuple,
+    PreferencesSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Transfer"
+  ): TypedContractEvent<
+    TransferEvent.InputTuple,
+    TransferEvent.OutputTuple,
+    TransferEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+
+  filters: {
+    "AccessMinted(uint256,address,string,bool)": TypedContractEvent<
+      AccessMintedEvent.InputTuple,
+      AccessMintedEvent.OutputTuple,
+      AccessMintedEvent.OutputObject
+    >;
+    AccessMinted: TypedContractEvent<
+      AccessMintedEvent.InputTuple,
+      AccessMintedEvent.OutputTuple,
+      AccessMintedEvent.OutputObject
+    >;
+
+    "AccessRevoked(uint256,address)": TypedContractEvent<
+      AccessRevokedEvent.InputTuple,
+      AccessRevokedEvent.OutputTuple,
+      AccessRevokedEvent.OutputObject
+    >;
+    AccessRevoked: TypedContractEvent<
+      AccessRevokedEvent.InputTuple,
+      AccessRevokedEvent.OutputTuple,
+      AccessRevokedEvent.OutputObject
+    >;
+
+    "AccessScoreUpdated(address,uint256,bytes32)": TypedContractEvent<
+      AccessScoreUpdatedEvent.InputTuple,
+      AccessScoreUpdatedEvent.OutputTuple,
+      AccessScoreUpdatedEvent.OutputObject
+    >;
+    AccessScoreUpdated: TypedContractEvent<
+      AccessScoreUpdatedEvent.InputTuple,
+      AccessScoreUpdatedEvent.OutputTuple,
+      AccessScoreUpdatedEvent.OutputObject
+    >;
+
+    "Approval(address,address,uint256)": TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+    Approval: TypedContractEvent<
+      ApprovalEvent.InputTuple,
+      ApprovalEvent.OutputTuple,
+      ApprovalEvent.OutputObject
+    >;
+
+    "ApprovalForAll(address,address,bool)": TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+    ApprovalForAll: TypedContractEvent<
+      ApprovalForAllEvent.InputTuple,
+      ApprovalForAllEvent.OutputTuple,
+      ApprovalForAllEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchFinalized(uint256)": TypedContractEvent<
+      BatchFinalizedEvent.InputTuple,
+      BatchFinalizedEvent.OutputTuple,
+      BatchFinalizedEvent.OutputObject
+    >;
+    BatchFinalized: TypedContractEvent<
+      BatchFinalizedEvent.InputTuple,
+      BatchFinalizedEvent.OutputTuple,
+      BatchFinalizedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ClassThresholdSet(string)": TypedContractEvent<
+      ClassThresholdSetEvent.InputTuple,
+      ClassThresholdSetEvent.OutputTuple,
+      ClassThresholdSetEvent.OutputObject
+    >;
+    ClassThresholdSet: TypedContractEvent<
+      ClassThresholdSetEvent.InputTuple,
+      ClassThresholdSetEvent.OutputTuple,
+      ClassThresholdSetEvent.OutputObject
+    >;
+
+    "CooldownSet(uint256,uint256)": TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+    CooldownSet: TypedContractEvent<
+      CooldownSetEvent.InputTuple,
+      CooldownSetEvent.OutputTuple,
+      CooldownSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,bool)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,bytes32)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PreferencesSubmitted(address,uint256,bytes32,bytes32,bytes32)": TypedContractEvent<
+      PreferencesSubmittedEvent.InputTuple,
+      PreferencesSubmittedEvent.OutputTuple,
+      PreferencesSubmittedEvent.OutputObject
+    >;
+    PreferencesSubmitted: TypedContractEvent<
+      PreferencesSubmittedEvent.InputTuple,
+      PreferencesSubmittedEvent.OutputTuple,
+      PreferencesSubmittedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "Transfer(address,address,uint256)": TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+    Transfer: TypedContractEvent<
+      TransferEvent.InputTuple,
+      TransferEvent.OutputTuple,
+      TransferEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+  };
+}
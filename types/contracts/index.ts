@@ -1,5 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { AudioGuideFHE } from "./AudioGuideFHE";
+import type * as davAccessNftFheSol from "./davAccessNFT_FHE.sol";
+export type { davAccessNftFheSol };
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC721Enumerable__factory } from "./ERC721Enumerable__factory";
+export { IERC721Enumerable__factory } from "./IERC721Enumerable__factory";
+export { IERC721Metadata__factory } from "./IERC721Metadata__factory";
@@ -15,6 +15,27 @@ import type {
 } from "../../contracts/UniversalAdapter";
 
 const _abi = [
+  {
+    inputs: [],
+    name: "InvalidKeyOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "keyOwner",
+        type: "address",
+      },
+    ],
+    name: "NotKeyOwner",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -36,10 +57,41 @@ const _abi = [
         name: "value",
         type: "bytes",
       },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "previousValueHash",
+        type: "bytes32",
+      },
     ],
     name: "DataStored",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "KeyOwnershipTransferred",
+    type: "event",
+  },
   {
     inputs: [
       {
@@ -72,6 +124,25 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "keyOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -90,10 +161,28 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "key",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferKeyOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080806040523461001657610468908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c9081636c67bdfa146101a257508063856c71dd146101875763ae55c88814610040575f80fd5b3461018357602091826003193601126101835780359067ffffffffffffffff8211610183576100719136910161039f565b61009284845183819483830196873781015f838201520380845201826103cd565b5190205f525f8252805f2082825180925f9080546100af81610403565b808552916001918083169081156101605750600114610122575b5050506100db925094929403846103cd565b815192818492835281519182828501525f5b83811061010c5750505f83830185015250601f01601f19168101030190f35b81810183015187820187015286945082016100ed565b5f90815285812095935091905b8183106101485750879450508201016100db5f806100c9565b8554878401850152948501948694509183019161012f565b925050506100db94925060ff191682840152151560051b82010185925f806100c9565b5f80fd5b5034610183575f366003190112610183576020905160018152f35b83833461018357806003193601126101835767ffffffffffffffff908235828111610183576101d4903690850161039f565b9290602435828111610183576101ed903690870161039f565b92909560209788810190878583376102138a828a81015f838201520380845201826103cd565b5190205f525f8852845f2091841161038c57506102308154610403565b601f8111610349575b505f601f84116001146102bd577ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b1578296979284926102ad9561029e935f916102b2575b508460011b905f198660031b1c19161790555b855196868897885287019161043b565b9184830390850152339661043b565b0390a2005b90508a01358b61027b565b601f19841690825f52885f20915f5b81811061033257509261029e927ff63f64b35cf7063a692d2f089698eda74616257a8ad9e106839e165690b15782999a9592876102ad989610610319575b5050600184811b01905561028e565b8b01355f19600387901b60f8161c191690558a8061030a565b91928a60018192868d0135815501940192016102cc565b815f52875f20601f850160051c810191898610610382575b601f0160051c01905b8181106103775750610239565b5f815560010161036a565b9091508190610361565b604190634e487b7160e01b5f525260245ffd5b9181601f840112156101835782359167ffffffffffffffff8311610183576020838186019501011161018357565b90601f8019910116810190811067ffffffffffffffff8211176103ef57604052565b634e487b7160e01b5f52604160045260245ffd5b90600182811c92168015610431575b602083101461041d57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610412565b908060209392818452848401375f828201840152601f01601f191601019056fea164736f6c6343000818000a";
+  "0x6080806040523461001657610738908161001b8239f35b5f80fdfe6080604081815260049182361015610015575f80fd5b5f3560e01c90816366af076814610492575080636c67bdfa146101bb578063856c71dd146101a0578063ae55c888146101145763de7bb7b614610056575f80fd5b346100fd57602091826003193601126100fd5780359067ffffffffffffffff908183116100fd57366023840112156100fd578281013591821161010157508251906100aa601f8201601f19168601836105e3565b8082528482019236602483830101116100fd57815f9260248893018637830101526100dc8351928392519283916105c2565b6001908201908152819003830190205490516001600160a01b039091168152f35b5f80fd5b604190634e487b7160e01b5f525260245ffd5b50346100fd5760203660031901126100fd57813567ffffffffffffffff81116100fd57602061014c61016a9461017193369101610594565b9190828551938492833781015f81520301902082519384809261069a565b03836105e3565b805180926020825261019281518092816020860152602086860191016105c2565b601f01601f19168101030190f35b50346100fd575f3660031901126100fd576020905160018152f35b50346100fd57806003193601126100fd5767ffffffffffffffff9180358381116100fd576101ec9036908301610594565b91906024358581116100fd576102059036908401610594565b918551968582893760018887018181528990036020908101909920546001600160a01b0316806104645750875187848237898189810184815203019020336bffffffffffffffffffffffff60a01b825416179055885f7fe1f1401bc977b333a5bf6343db6e8a8325392ab5b23738efa3509dcb86319a268a5183815280610290339582018d8a610619565b0390a35b87518784823789818981015f8152030190206102b08154610662565b61043f57505f955b8851888582378a818a81015f81520301902092861161010157506102dc8254610662565b601f81116103f9575b505f601f861160011461036f57927f414acfcae3c408a304b76b54a693b4f0ccb2b9914d87951ec4b109d52661e39498999492868061034b9461035899975f93610364575b501b905f198760031b1c19161790555b895197606089526060890191610619565b9286840390870152610619565b938201528033930390a2005b87013592505f61032a565b601f19861690835f528a5f20915f5b8181106103e45750928795927f414acfcae3c408a304b76b54a693b4f0ccb2b9914d87951ec4b109d52661e3949b9c9795926103589961034b96106103cb575b505085811b01905561033a565b8601355f19600389901b60f8161c191690555f806103be565b87830135845592840192918c01918c0161037e565b825f52895f20601f870160051c8101918b8810610435575b601f0160051c019082905b82811061042a5750506102e5565b5f815501829061041c565b9091508190610411565b610458610451918a519283809261069a565b03826105e3565b898151910120956102b8565b3381036104715750610294565b8851638b31e75f60e01b815290819061048e908a87848c01610639565b0390fd5b8284346100fd57816003193601126100fd57803567ffffffffffffffff81116100fd576104c29036908301610594565b6001600160a01b03602435818116969295939492908790036100fd5785858237602081878101600181520301902054163381036105795750841561056b57507fe1f1401bc977b333a5bf6343db6e8a8325392ab5b23738efa3509dcb86319a2691816105669251858382376020818781016001815203019020866bffffffffffffffffffffffff60a01b825416179055519182916020835233956020840191610619565b0390a3005b9051630575f78760e11b8152fd5b8461048e929351948594638b31e75f60e01b86528501610639565b9181601f840112156100fd5782359167ffffffffffffffff83116100fd57602083818601950101116100fd57565b5f5b8381106105d35750505f910152565b81810151838201526020016105c4565b90601f8019910116810190811067ffffffffffffffff82111761060557604052565b634e487b7160e01b5f52604160045260245ffd5b908060209392818452848401375f828201840152601f01601f1916010190565b9160209161065291959495604085526040850191610619565b6001600160a01b03909416910152565b90600182811c92168015610690575b602083101461067c57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610671565b80545f93926106a882610662565b918282526020936001916001811690815f1461070c57506001146106ce575b5050505050565b90939495505f92919252835f2092845f945b8386106106f857505050500101905f808080806106c7565b8054858701830152940193859082016106e0565b60ff19168685015250505090151560051b010191505f808080806106c756fea164736f6c6343000818000a";
 
 type UniversalAdapterConstructorParams =
   | [signer?: Signer]
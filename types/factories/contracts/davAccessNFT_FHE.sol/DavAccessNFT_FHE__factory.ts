@@ -0,0 +1,1928 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  DavAccessNFT_FHE,
+  DavAccessNFT_FHEInterface,
+} from "../../../contracts/davAccessNFT_FHE.sol/DavAccessNFT_FHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchAlreadyFinalized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC721EnumerableForbiddenBatchMint",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721IncorrectOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721InsufficientApproval",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "approver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidApprover",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOperator",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC721InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721NonexistentToken",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "ERC721OutOfBoundsIndex",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandleNotAllowed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProof",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotTokenHolder",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedContract",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TokenRevoked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownVehicleClass",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "vehicleId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "permanent",
+        type: "bool",
+      },
+    ],
+    name: "AccessMinted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "revokedBy",
+        type: "address",
+      },
+    ],
+    name: "AccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updater",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "accessScore",
+        type: "bytes32",
+      },
+    ],
+    name: "AccessScoreUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchFinalized",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "vehicleClass",
+        type: "string",
+      },
+    ],
+    name: "ClassThresholdSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "accessGranted",
+        type: "bool",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "drivingStyle",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "routePreference",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "euint32",
+        name: "comfortLevel",
+        type: "bytes32",
+      },
+    ],
+    name: "PreferencesSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ACCESS_THRESHOLD",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "accessTokens",
+    outputs: [
+      {
+        internalType: "string",
+        name: "vehicleId",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "permanent",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "revoked",
+        type: "bool",
+      },
+      {
+        internalType: "uint64",
+        name: "mintedAt",
+        type: "uint64",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchResults",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "decided",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "accessGranted",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "vehicleClass",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchSubmissionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "accessGranted",
+        type: "bool",
+      },
+      {
+        internalType: "string",
+        name: "vehicleClass",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatch",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "batchId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "submissionCount",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "closed",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "finalized",
+            type: "bool",
+          },
+          {
+            components: [
+              {
+                internalType: "euint32",
+                name: "drivingStyle",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "routePreference",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "comfortLevel",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "accessScore",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct DavAccessNFT_FHE.BatchAggregates",
+            name: "aggregates",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "bool",
+                name: "decided",
+                type: "bool",
+              },
+              {
+                internalType: "bool",
+                name: "accessGranted",
+                type: "bool",
+              },
+              {
+                internalType: "uint256",
+                name: "requestId",
+                type: "uint256",
+              },
+              {
+                internalType: "string",
+                name: "vehicleClass",
+                type: "string",
+              },
+            ],
+            internalType: "struct DavAccessNFT_FHE.BatchResult",
+            name: "result",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct DavAccessNFT_FHE.BatchSummary",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchAggregates",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "drivingStyle",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "routePreference",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "comfortLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "accessScore",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchStatistics",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "finalized",
+            type: "bool",
+          },
+          {
+            components: [
+              {
+                internalType: "euint32",
+                name: "mean",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "min",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "max",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct DavAccessNFT_FHE.PreferenceStats",
+            name: "drivingStyle",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "euint32",
+                name: "mean",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "min",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "max",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct DavAccessNFT_FHE.PreferenceStats",
+            name: "routePreference",
+            type: "tuple",
+          },
+          {
+            components: [
+              {
+                internalType: "euint32",
+                name: "mean",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "min",
+                type: "bytes32",
+              },
+              {
+                internalType: "euint32",
+                name: "max",
+                type: "bytes32",
+              },
+            ],
+            internalType: "struct DavAccessNFT_FHE.PreferenceStats",
+            name: "comfortLevel",
+            type: "tuple",
+          },
+        ],
+        internalType: "struct DavAccessNFT_FHE.BatchStatistics",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "vehicleClass",
+        type: "string",
+      },
+    ],
+    name: "getClassThreshold",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getTokenPreferences",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "drivingStyle",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "routePreference",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "comfortLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "musicVolume",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getVehicleClasses",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "isBatchClosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastTokenId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "vehicleId",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "permanent",
+        type: "bool",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "drivingStyle",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "routePreference",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "comfortLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "musicVolume",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "mintAccess",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "recordCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "recordsOf",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "tokenIds",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "vehicleClass",
+        type: "string",
+      },
+    ],
+    name: "requestAccessCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestAccessCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "revokeAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "vehicleClass",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "threshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setClassThreshold",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "_drivingStyle",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_routePreference",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "_comfortLevel",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitPreferences",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32",
+        name: "_drivingStyle",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "_routePreference",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "_comfortLevel",
+        type: "bytes32",
+      },
+    ],
+    name: "submitPreferences",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint32",
+        name: "_accessScore",
+        type: "bytes32",
+      },
+    ],
+    name: "updateAccessScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "_accessScore",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "updateAccessScore",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200045f576200001462000483565b600e81526020906d444156204163636573732046484560901b828201526200003b62000483565b60048152634441564160e01b8382015281519092906001600160401b03908181116200037d575f54906001948583811c9316801562000454575b858410146200035e578190601f9384811162000401575b5085908483116001146200039d575f9262000391575b50505f19600383901b1c191690851b175f555b84519182116200037d5783548481811c9116801562000372575b848210146200035e5781811162000316575b5082908211600114620002b0578190600b94955f92620002a4575b50505f19600383901b1c191690841b1783555b5f60606200011c62000463565b828152828482015282604082015201526200013662000463565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf69808583015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390828254161790553390600a541617600a55335f525260405f209060ff19825416179055604051337fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2603c600d556143089081620004a48239f35b015190505f80620000fc565b601f19821694845f52835f20955f5b8181106200030057509185969184600b97959410620002e7575b505050811b0183556200010f565b01515f1960f88460031b161c191690555f8080620002d9565b82840151885596860196928501928501620002bf565b845f52835f208280850160051c82019286861062000354575b0160051c019085905b82811062000348575050620000e1565b5f815501859062000338565b925081926200032f565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620000cf565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620000a2565b90879350601f198316915f8052875f20925f5b89828210620003ea5750508411620003d1575b505050811b015f55620000b5565b01515f1960f88460031b161c191690555f8080620003c3565b8385015186558b97909501949384019301620003b0565b9091505f8052855f208480850160051c8201928886106200044a575b918991869594930160051c01915b8281106200043b5750506200008c565b5f81558594508991016200042b565b925081926200041d565b92607f169262000075565b5f80fd5b60405190608082016001600160401b038111838210176200037d57604052565b60408051919082016001600160401b038111838210176200037d5760405256fe60406080815260049081361015610014575f80fd5b5f3560e01c80629e5017146127dd578062af701f1461276c57806301ffc9a7146126e357806304c7a7cd1461265f57806305d389b91461257f57806306fdde03146124d2578063081812fc1461249a578063095ea7b3146123bf5780630a763da1146123a15780630f472ea014612316578063124bd04b14611ebc57806318160ddd146116a95780631f96c1a814611e3d57806323b872dd14611e265780632a55bfa114611da25780632c3b7dbd14611d7b5780632f745c5914611d535780633f4ba83a14611cec57806342842e0e14611cbe57806346e2577a14611c505780634f6ccce714611bfb5780635a94a07914611bc45780635ac44282146119d85780635c975abb146119b55780636352211e146119865780636b074a071461194a57806370a082311461191e5780637b5b1157146118b1578063829f41c7146118965780638456cb5914611823578063880e0572146117cc57806388da2b2d146117685780638a355a57146116ef5780638da5cb5b146116c7578063900407bc146116a957806395d89b41146115c6578063a22cb46514611525578063a4365476146114ee578063acd75103146114cb578063b65e89411461145b578063b6a6c16b14611186578063b8221bc414611168578063b88d4fde1461110f578063c2418d6b14610ac2578063c2772329146109f8578063c87b56dd146109a6578063c945676914610956578063d160d13a146108ab578063da1f12ab1461088f578063dba7e611146107d9578063e1b97d6914610719578063e2c0d5ae146106b9578063e33491a7146105a9578063e5b7e2b4146104c8578063e985e9c51461047a578063ee820a7c14610369578063f2fde38b146102eb578063f84ddf0b146102cd5763fc149a4f146102a3575f80fd5b346102c95760203660031901126102c9576102c060209235612fff565b90519015158152f35b5f80fd5b50346102c9575f3660031901126102c9576020906014549051908152f35b50346102c95760203660031901126102c957610305612a12565b600a54926001600160a01b0380851693909291903385900361035c5750501680926001600160601b0360a01b1617600a557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b516330cd747160e01b8152fd5b5090346102c95760203660031901126102c95761047882610140935161038e81612876565b5f8152610399612fb9565b60208201526103a6612fb9565b8282015260606103b4612fb9565b91015282355f526018602052610459815f2061043c8351956103d587612876565b60ff8354161515875261040e60076104016103f260018701612fd7565b9360208b019485528601612fd7565b94878a0195865201612fd7565b9460608801958652519651151587525160208701906040809180518452602081015160208501520151910152565b5180516080860152602081015160a08601526040015160c0850152565b51805160e0840152602081015161010084015260400151610120830152565bf35b50346102c957806003193601126102c957602090610496612a12565b61049e612a28565b9060018060a01b038091165f5260058452825f2091165f52825260ff815f20541690519015158152f35b5090346102c957602090816003193601126102c95791906104e7612a12565b906104f182612f56565b936104fb85612b40565b9461050885519687612909565b80865261051481612b40565b8684019490601f19013686375f5b828110610569575050505082519384938285019183865251809252840192915f5b82811061055257505050500390f35b835185528695509381019392810192600101610543565b610577818399979899612eb1565b865182101561059657600582901b870186015294969594600101610522565b603285634e487b7160e01b5f525260245ffd5b5090346102c95760203660031901126102c957600a54813592906001600160a01b0316330361035c5760ff600c54166106ac576105e583612fff565b1561069f57825f526018602052805f209160ff83541661069157835f526012602052815f20549182156106845761064e9291600291865f5260176020525f2090610630848354613ce8565b6001870155610643846001840154613ce8565b908601550154613ce8565b6007820155805460ff191660011790557f5cff112f1cb588779b4e6aae6baf0d738747fcf132f0ff202adcec605f9cabdf5f80a2005b516321c4e35760e21b8152fd5b9051638a66d60760e01b8152fd5b516333b094a160e01b8152fd5b51637991559360e11b8152fd5b50346102c95760203660031901126102c95760ff600c54166106ac57335f52600f6020526106ed815f2054600d5490612b57565b421061070c575161070a91610701826128ee565b5f8252356136cb565b005b5163aa9a98df60e01b8152fd5b50346102c95760203660031901126102c95781359161073783613034565b336001600160a01b03918216141590816107ca575b506107bc57825f52601560205260ff6001835f20015460081c166107ae5750600190825f5260156020525f200161010061ff001982541617905533907f125883b94692baebecad9f111ed97ffa626523bbbadc6b0ef85ee1b56b9e52d55f80a3005b905163195f78ab60e11b8152fd5b905163e131a43f60e01b8152fd5b9050600a54163314155f61074c565b50346102c957806003193601126102c9576024356001600160401b0381116102c9576108089036908401612ae2565b909160ff600c541661088057335f52600f60205261082c815f2054600d5490612b57565b421061087157805182848237602081848101601a81520301902054156108625761070a8461085b368587612a59565b90356136cb565b5163fa55d93f60e01b81528390fd5b5163aa9a98df60e01b81528390fd5b51637991559360e11b81528390fd5b50346102c9575f3660031901126102c957602090516127118152f35b50346102c95760603660031901126102c95781356024359060443592335f52600b60205260ff815f205416156109475760ff600c541661093857335f52600e6020526108fd815f2054600d5490612b57565b4210610929575061070a93506109128161306e565b61091b8261306e565b6109248361306e565b6134ec565b5163aa9a98df60e01b81528490fd5b51637991559360e11b81528490fd5b51631a40715960e11b81528490fd5b50346102c95760203660031901126102c9578135916001600160401b0383116102c95761098a602093918492369101612ae2565b919082845193849283378101601a815203019020549051908152f35b50346102c95760203660031901126102c9576109c56109f49235613034565b505f81516109d2816128ee565b528051906109df826128ee565b5f8252519182916020835260208301906129ed565b0390f35b50346102c95760803660031901126102c9576064356001600160401b0381116102c957610a289036908401612ae2565b9091335f52600b60205260ff815f20541615610ab35760ff600c541661088057335f52600e602052610a60815f2054600d5490612b57565b42106108715750610aad610aa5610a8661070a95610a7f368688612a59565b90356132ae565b93610a9d610a95368684612a59565b6024356132ae565b933691612a59565b6044356132ae565b916134ec565b51631a40715960e11b81528390fd5b50346102c95760e03660031901126102c9576001600160401b039082358281116102c957610af39036908501612ae2565b610afe939193612b0f565b9360c4358381116102c957610b169036908801612ae2565b60ff600c989298541661110057610b2e601454612b1e565b9687601455875f5260209860168a526003610ba1610b998a5f2093610b57610aa5368984612a59565b8555610b6f610b67368984612a59565b6064356132ae565b9660019788870155610b8d610b85368385612a59565b6084356132ae565b60028701553691612a59565b60a4356132ae565b910155865195610bb087612876565b610bbb368787612a59565b875289870191151596878352888101905f8252606081019280421684528b5f5260158d528a5f20915180519182116110ed57908d8392610c0683610c008b975461283e565b86612b7c565b81601f841160011461107e575082610c6f969593610c589593610c3e935f92611073575b50508160011b915f199060031b1c19161790565b81555b0194511515859060ff801983541691151516179055565b51835461ff00191690151560081b61ff0016178355565b5169ffffffffffffffff000082549160101b169069ffffffffffffffff00001916179055855190610c9f826128ee565b5f8252331561105d575f88815260028a52879020546001600160a01b0316801580159291908361102c575b335f5260038c52895f208381540190558a5f5260028c52895f20336001600160601b0360a01b8254161790558a33837fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a415610fbc576008548a5f5260098c52808a5f2055600160401b811015610fa957610d66610d5082858e9401600855612f0d565b819391549060031b91821b915f19901b19161790565b90555b3303610f5e575b885f5260168a52875f206003895191610d8883612876565b80548352838101548d84015260028101548b840152015460608201525f5b858110610f3457505050610f1e57333b610e04575b50508491610df37f802497c2b37d668be498155e43b0870fbbcbf294a1b60123ee20c1c58d8c9d7b9286519287845287840191612f8c565b93878201528033940390a351908152f35b8596949392919651888180610e40630a85bd0160e11b95868352338d8401525f60248401528a60448401526080606484015260848301906129ed565b03815f335af15f9181610ede575b50610ea9578888883d15610ea1573d92610e6784612a3e565b93610e7483519586612909565b84523d5f8286013e5b83519384610e9b578251633250574960e11b81523381860152602490fd5b84925001fd5b606092610e7d565b63ffffffff60e09893949596981b1603610ec7575081610df3610dbb565b602490855190633250574960e11b82523390820152fd5b9091508981813d8311610f17575b610ef68183612909565b810103126102c957516001600160e01b0319811681036102c957905f610e4e565b503d610eec565b85516339e3563760e11b81525f81840152602490fd5b8290610f4a30610f448386614000565b51614011565b610f5833610f448386614000565b01610da6565b610f6733612f56565b5f198101908111610f9657335f5260068b52885f20815f528b5289895f2055895f5260078b52885f2055610d70565b601185634e487b7160e01b5f525260245ffd5b604186634e487b7160e01b5f525260245ffd5b338114610d6957610fcc81612f56565b8a5f5260078c52895f205490825f5260068d528a5f20918d828203611008575b50508b5f5260078d525f8b8120555f528b525f89812055610d69565b600790835f528481528d805f20548091855f525f20555f52528b5f20555f8d610fec565b5f8b815260046020526040812080546001600160a01b031916905582815260038d528a902080545f19019055610cca565b8651633250574960e11b81525f81850152602490fd5b015190505f80610c2a565b9190601f198416855f52835f20935f905b8282106110d45750509286949192610c6f98979383610c589896106110bc575b505050811b018155610c41565b01515f1960f88460031b161c191690555f80806110af565b8484015186558c9890950194938401939081019061108f565b604188634e487b7160e01b5f525260245ffd5b508451637991559360e11b8152fd5b82346102c95760803660031901126102c957611129612a12565b611131612a28565b604435906064356001600160401b0381116102c95761070a9461115691369101612a8f565b92611162838383612bcb565b336133a2565b50346102c9575f3660031901126102c957602090600d549051908152f35b50346102c95760603660031901126102c9576001600160401b039180358381116102c9576111b79036908301612ae2565b9290936044358181116102c9576111d19036908501612ae2565b600a546001600160a01b0393908416330361144b5760ff600c541661143b57861561142b578451958789883786888101601a8152602098899103019020541561128e575b50507fddf3ad863fd89741a523f9bcdbea70d61bc0f771eaecd1f49933cacdf2468e7d9692611250610a95611289969461127a943691612a59565b908184518987823788818b8101601a815203019020556112703083614011565b600a541690614011565b51938385948552840191612f8c565b0390a1005b601b5490600160401b821015611405576001916001810180601b5581101561141857601b5f527f3ad8aa4f87544323a9d1e5dd902f40c356527a7955687113db5f9a85ad579dc10192891161140557506112f2886112ec845461283e565b84612b7c565b5f90601f89116001146113705750610a95611289969461127a947fddf3ad863fd89741a523f9bcdbea70d61bc0f771eaecd1f49933cacdf2468e7d9b97946113538c80611250975f91611365575b508160011b915f199060031b1c19161790565b90555b94509496505081949850611215565b90508b01355f611340565b90601f198916835f52885f20925f905b8282106113ee5750509461127a947fddf3ad863fd89741a523f9bcdbea70d61bc0f771eaecd1f49933cacdf2468e7d9b979461125094610a95948d6112899c9a106113d5575b505060018c811b019055611356565b8a01355f1960038f901b60f8161c191690555f806113c6565b8c840135855593840193928a0192908a0190611380565b604190634e487b7160e01b5f525260245ffd5b603282634e487b7160e01b5f525260245ffd5b845163fa55d93f60e01b81528690fd5b8451637991559360e11b81528690fd5b84516330cd747160e01b81528690fd5b5090346102c95760203660031901126102c957355f526013602052805f20906109f482549160ff60018501549461149960036002830154920161292a565b9280519687968752602087015282821615159086015260081c161515606084015260a0608084015260a08301906129ed565b50346102c9575f3660031901126102c95760209060ff6011541690519015158152f35b50346102c95760203660031901126102c9576020906001600160a01b03611513612a12565b165f52600e8252805f20549051908152f35b50346102c957806003193601126102c95761153e612a12565b90611547612b0f565b6001600160a01b039092169283156115b15750335f526005602052805f20835f5260205261158382825f209060ff801983541691151516179055565b5190151581527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b836024925191630b61174360e31b8352820152fd5b50346102c9575f3660031901126102c9578051905f9082600192600154936115ed8561283e565b90818452602095866001821691825f1461168757505060011461162c575b50506109f4929161161d910385612909565b519282849384528301906129ed565b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b82841061166f575050508201018161161d61160b565b8054848a018601528895508794909301928101611659565b60ff19168682015292151560051b8501909201925083915061161d905061160b565b50346102c9575f3660031901126102c9576020906008549051908152f35b50346102c9575f3660031901126102c957600a5490516001600160a01b039091168152602090f35b5090346102c95760203660031901126102c95761170a612a12565b600a546001600160a01b0392908316330361175a57501690815f52600b6020525f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b83516330cd747160e01b8152fd5b50346102c95760203660031901126102c95760ff91355f5260196020526109f4815f20918254926117a060026001830154920161292a565b9180519585818897161515875260081c16151560208601528401526080606084015260808301906129ed565b5090346102c95760203660031901126102c957355f526017602052805f20906109f4825491600184015493600360028201549101549151948594859094939260609260808301968352602083015260408201520152565b50346102c9575f3660031901126102c957600a546001600160a01b0316330361035c57600c549160ff8316611888577f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a25860208360018660ff191617600c5551338152a1005b9051637991559360e11b8152fd5b50346102c9575f3660031901126102c9576020905160328152f35b50346102c95760203660031901126102c957600a548235906001600160a01b03163303611910577f6f05c070768300be3a8ec47b18efd326d94912ec5cf3f8bd7488e1c66d61e8bf9250600d549080600d5582519182526020820152a1005b50516330cd747160e01b8152fd5b50346102c95760203660031901126102c95760209061194361193e612a12565b612f56565b9051908152f35b50346102c95760203660031901126102c9576020906001600160a01b0361196f612a12565b165f52600b825260ff815f20541690519015158152f35b50346102c95760203660031901126102c9576119a460209235613034565b90516001600160a01b039091168152f35b50346102c9575f3660031901126102c95760209060ff600c541690519015158152f35b50346102c9576020806003193601126102c95781518335916119f9826128a5565b5f82525f818301525f848301526060915f838201528451611a1981612876565b5f81525f838201525f868201525f84820152608082015260a0855191611a3e83612876565b5f83525f848401525f878401528480840152015282158015611bb9575b611ba957906109f491835f5260128152845f205494611a7985612fff565b601883528360ff835f20541660178552835f209060198652845f2093855199611aa18b6128a5565b8a52868a019a8b52858a019015158152838a0191151582526003865193611ac785612876565b8054855260018101548986015260028101548886015201548484015260808a01928352611b1f6002875196611afb88612876565b60ff815481811615158a5260081c1615158a8901526001810154898901520161292a565b8486015260a08a0194855285519a8b9a888c5251888c015251868b0152511515838a0152511515608089015251805160a08901528481015160c08901528381015160e08901520151610100870152519161012080870152825115156101408701528201511515610160860152810151610180850152015160806101a08401526101c08301906129ed565b505050516333b094a160e01b8152fd5b506010548311611a5b565b50346102c95760203660031901126102c9576020906001600160a01b03611be9612a12565b165f52600f8252805f20549051908152f35b5090346102c95760203660031901126102c957803590600854821015611c3557602083611c2784612f0d565b91905490519160031b1c8152f35b905f604493519263295f44f760e21b84528301526024820152fd5b5090346102c95760203660031901126102c957611c6b612a12565b600a546001600160a01b0392908316330361175a57501690815f52600b6020525f20600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b50346102c95761070a90611cd136612aad565b91925192611cde846128ee565b5f8452611162838383612bcb565b5090346102c9575f3660031901126102c957600a546001600160a01b03163303611d45577f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa60208360ff19600c5416600c5551338152a1005b90516330cd747160e01b8152fd5b50346102c957806003193601126102c957602090611943611d72612a12565b60243590612eb1565b50346102c95760203660031901126102c957602091355f5260128252805f20549051908152f35b50346102c957806003193601126102c9576024356001600160401b0381116102c957611dd19036908401612ae2565b9091335f52600b60205260ff815f20541615610ab35760ff600c541661088057335f52600e602052611e09815f2054600d5490612b57565b42106108715761070a611e2185610a7f368688612a59565b6130ff565b346102c95761070a611e3736612aad565b91612bcb565b50346102c9575f3660031901126102c957600a546001600160a01b0316330361035c5760ff600c54166106ac576011549160ff831615611eae577f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085876020838560ff19166011556010549051908152a1005b90516333b094a160e01b8152fd5b50346102c957600319906060368301126102c9578235916001600160401b03906024358281116102c957611ef39036908701612a8f565b946044358381116102c957611f0b9036908301612a8f565b95855f526020936013855260ff6002875f2001541661230657865f5260138552855f2092835494611f51611f4c6003870197611f468961292a565b906131dc565b613277565b9960019a8b870154036122f657878551036122e657895f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952895f2054156122d6578a5f528852885f20918b8a51809485918c82549182815201915f528c5f20938d5f905b8382106122bf5750505050611fd092500384612909565b855192838a0193848b116122ac578b01809411610f96579089918b518c818a5197868c01988088840190612004918c6129cc565b820190878201520385810183520161201c9082612909565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703548d516378542ead60e01b81526060898201529586946001600160a01b03909216938593849391612072906064860190613244565b82858203016024860152612085916129ed565b90838203016044840152612098916129ed565b03915a905f91f19081156122a2575f91612275575b5015612266576120ec600291888a51968c7f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a28051010190612b64565b858201805461ff00198d1661ffff199091161782151560081b61ff00161790559361211681612876565b8a8152878101941515968786526121616121358b8401928d845261292a565b966060840197885288545f5260198b52610c588c5f2094511515859060ff801983541691151516179055565b518b820155019251908151928311611405575061218882612182855461283e565b85612b7c565b8598601f83116001146121e9575090807ffcb89878084df9a452225ff82ff37bf7da5ee9f443c66022bfe7a347458e642398996121d9935f926110735750508160011b915f199060031b1c19161790565b90555b54918351928352820152a2005b9190601f19821699845f52875f20915f5b8c81106122515750837ffcb89878084df9a452225ff82ff37bf7da5ee9f443c66022bfe7a347458e64239b9c10612239575b505050811b0190556121dc565b01515f1960f88460031b161c191690555f808061222c565b818301518455928501929189019189016121fa565b50865163cf6c44e960e01b8152fd5b6122959150883d8a1161229b575b61228d8183612909565b810190612b64565b5f6120ad565b503d612283565b89513d5f823e3d90fd5b601186634e487b7160e01b5f525260245ffd5b86548552958201958995509093019281018e611fb9565b895163d66ca67560e01b81528490fd5b88516309bde33960e01b81528390fd5b88516313b304fb60e21b81528390fd5b855163dbde098160e01b81528390fd5b50346102c95760203660031901126102c957813590335f52600b60205260ff815f205416156123925760ff600c541661238357335f52600e602052612361815f2054600d5490612b57565b42106123745761070a82611e218161306e565b5163aa9a98df60e01b81529050fd5b51637991559360e11b81529050fd5b51631a40715960e11b81529050fd5b50346102c9575f3660031901126102c9576020906010549051908152f35b50346102c957806003193601126102c9576123d8612a12565b916024356123e581613034565b33151580612487575b80612460575b61244a576001600160a01b039485169482918691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9255f80a45f526020525f20906001600160601b0360a01b8254161790555f80f35b835163a9fbf51f60e01b81523381850152602490fd5b5060018060a01b0381165f526005602052835f20335f5260205260ff845f205416156123f4565b506001600160a01b0381163314156123ee565b50346102c95760203660031901126102c95781602092356124ba81613034565b505f52825260018060a01b03815f2054169051908152f35b50346102c9575f3660031901126102c9578051905f90825f54926124f58461283e565b808352602094600190866001821691825f146116875750506001146125265750506109f4929161161d910385612909565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b828410612567575050508201018161161d61160b565b8054848a018601528895508794909301928101612551565b50346102c9575f3660031901126102c957601b5461259c81612b40565b906125a983519283612909565b80825260208083019182601b5f527f3ad8aa4f87544323a9d1e5dd902f40c356527a7955687113db5f9a85ad579dc15f915b83831061263d57505050508351928184019082855251809152848401948160051b85010192915f955b8287106126115785850386f35b90919293828061262d600193603f198a820301865288516129ed565b9601920196019592919092612604565b600185819261264e859a989a61292a565b8152019201920191909593956125db565b5090346102c9575f3660031901126102c957600a546001600160a01b03163303611d455760ff600c5416611888577fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee26020836126bc601054612b1e565b80601055600160ff1960115416176011555f52601282525f818120556010549051908152a1005b5090346102c95760203660031901126102c9573563ffffffff60e01b81168091036102c95760209163780e9d6360e01b8214918215612726575b50519015158152f35b9091506380ac58cd60e01b811490811561275b575b811561274a575b50905f61271d565b6301ffc9a760e01b1490505f612742565b635b5e139f60e01b8114915061273b565b50346102c95760203660031901126102c9576127b791355f526015602052805f20906001600160401b0360016127a18461292a565b93015482519485946080865260808601906129ed565b9260ff82161515602086015260ff8260081c1615159085015260101c1660608301520390f35b5090346102c95760203660031901126102c957356127fa81613034565b505f526016602052805f20906109f4825491600184015493600360028201549101549151948594859094939260609260808301968352602083015260408201520152565b90600182811c9216801561286c575b602083101461285857565b634e487b7160e01b5f52602260045260245ffd5b91607f169161284d565b608081019081106001600160401b0382111761289157604052565b634e487b7160e01b5f52604160045260245ffd5b60c081019081106001600160401b0382111761289157604052565b606081019081106001600160401b0382111761289157604052565b6001600160401b03811161289157604052565b602081019081106001600160401b0382111761289157604052565b90601f801991011681019081106001600160401b0382111761289157604052565b9060405191825f825461293c8161283e565b908184526020946001916001811690815f146129aa575060011461296c575b50505061296a92500383612909565b565b5f90815285812095935091905b81831061299257505061296a93508201015f808061295b565b85548884018501529485019487945091830191612979565b9250505061296a94925060ff191682840152151560051b8201015f808061295b565b5f5b8381106129dd5750505f910152565b81810151838201526020016129ce565b90602091612a06815180928185528580860191016129cc565b601f01601f1916010190565b600435906001600160a01b03821682036102c957565b602435906001600160a01b03821682036102c957565b6001600160401b03811161289157601f01601f191660200190565b929192612a6582612a3e565b91612a736040519384612909565b8294818452818301116102c9578281602093845f960137010152565b9080601f830112156102c957816020612aaa93359101612a59565b90565b60609060031901126102c9576001600160a01b039060043582811681036102c9579160243590811681036102c9579060443590565b9181601f840112156102c9578235916001600160401b0383116102c957602083818601950101116102c957565b6024359081151582036102c957565b5f198114612b2c5760010190565b634e487b7160e01b5f52601160045260245ffd5b6001600160401b0381116128915760051b60200190565b91908201809211612b2c57565b908160209103126102c9575180151581036102c95790565b601f8211612b8957505050565b5f5260205f20906020601f840160051c83019310612bc1575b601f0160051c01905b818110612bb6575050565b5f8155600101612bab565b9091508190612ba2565b6001600160a01b0382811693918415612e9957825f526020946002865260409583875f2054169533151580612e0b575b508615928315612dda575b805f5260038352885f209360019460018154019055875f5260028452895f20826001600160601b0360a01b82541617905587828a7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef5f80a415612d6e57600854875f5260098452808a5f2055600160401b81101561289157612c92610d508260018b9401600855612f0d565b90555b808803612d35575b50855f52601682526003885f20895193612cb685612876565b8154855260018201549085015260028101548a850152015460608301525f5b60048110612d1157505050501692838303612cf05750505050565b6064945051926364283d7b60e01b8452600484015260248301526044820152fd5b8390612d2130610f448387614000565b612d2f83610f448387614000565b01612cd5565b612d3e82612f56565b5f19810191908211612b2c575f5260068352885f20815f52835286895f2055865f5260078352885f20555f612c9d565b878114612c9557612d7e88612f56565b875f5260078452895f205490895f52600685528a5f2091818103612db8575b50885f52600785525f8b8120555f5283525f89812055612c95565b815f528286528b5f2054815f52808d5f20555f52600786528b5f20555f612d9d565b5f87815260046020526040812080546001600160a01b03191690558881526003845289902080545f19019055612c06565b80612e58575b15612e1c575f612bfb565b878688612e39576024915190637e27328960e01b82526004820152fd5b905163177e802f60e01b81523360048201526024810191909152604490fd5b503387148015612e7d575b80612e115750855f52600482523385895f20541614612e11565b50865f5260058252875f20335f52825260ff885f205416612e63565b604051633250574960e11b81525f6004820152602490fd5b612eba81612f56565b821015612ee25760018060a01b03165f52600660205260405f20905f5260205260405f205490565b60405163295f44f760e21b81526001600160a01b039190911660048201526024810191909152604490fd5b600854811015612f425760085f527ff3f7a9fe364faab93b216da50a3214154f22a0a2b415b23a84c8169e8b636ee301905f90565b634e487b7160e01b5f52603260045260245ffd5b6001600160a01b03168015612f74575f52600360205260405f205490565b6040516322718ad960e21b81525f6004820152602490fd5b908060209392818452848401375f828201840152601f01601f1916010190565b805115612f425760200190565b60405190612fc6826128c0565b5f6040838281528260208201520152565b90604051612fe4816128c0565b60406002829480548452600181015460208501520154910152565b80158015613029575b613024576010541180156130195790565b5060ff601154161590565b505f90565b506010548111613008565b5f818152600260205260409020546001600160a01b0316908115613056575090565b60249060405190637e27328960e01b82526004820152fd5b5f805160206142dc833981519152546040516382027b6d60e01b81526004810192909252336024830152602090829060449082906001600160a01b03165afa9081156130f4575f916130d5575b50156130c357565b60405163157e752b60e01b8152600490fd5b6130ee915060203d60201161229b5761228d8183612909565b5f6130bb565b6040513d5f823e3d90fd5b60ff60115416156131ca576010545f526017602052613153600360405f200180548381156131ac575b81613134928455613daa565b8091556131413082614011565b600a546001600160a01b031690614011565b61315d3082614011565b6131673382614011565b335f52600e6020524260405f20556010549060405191825260208201527f60574be6e0b1e085c4cc9e5d4850c1f1bc587e833631916484c8831c9563d22e60403392a2565b61313491506131b9614246565b6131c33082614011565b9150613128565b60405163f84b8daf60e01b8152600490fd5b91906132286020604051926131f0846128c0565b600284526040368386013783955f5260178252600360405f20015461321485612fac565b5281604051938285809451938492016129cc565b8101601a8152030190205490805160011015612f425760400152565b9081518082526020808093019301915f5b828110613263575050505090565b835185529381019392810192600101613255565b6040516132a8816132946020820194604086526060830190613244565b30604083015203601f198101835282612909565b51902090565b60206132fe9260018060a01b0392835f805160206142bc8339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906129ed565b6004606483015203925af19182156130f4575f9261336e575b505f805160206142dc8339815191525416803b156102c957604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156130f457613365575090565b612aaa906128db565b9091506020813d60201161339a575b8161338a60209383612909565b810103126102c95751905f613317565b3d915061337d565b9293909193843b6133b5575b5050505050565b604051630a85bd0160e11b8082526001600160a01b0395861660048301529385166024820152604481019190915260806064820152602095949093169392908590829081906134089060848301906129ed565b03815f885af15f91816134ac575b50613475575050503d5f1461346d573d9161343083612a3e565b9261343e6040519485612909565b83523d5f8285013e5b8251928361346857604051633250574960e11b815260048101849052602490fd5b019050fd5b606091613447565b9193506001600160e01b03199091160361349457505f808080806133ae565b60249060405190633250574960e11b82526004820152fd5b9091508581813d83116134e5575b6134c48183612909565b810103126102c957516001600160e01b0319811681036102c957905f613416565b503d6134ba565b919060ff60115416156131ca576010545f52602092601784526040906135a9825f20805480156136b3575b815560018101908154801561369b575b825561359d600282019182548015613683575b8355613547868254613daa565b8155613554888554613daa565b8455613561898454613daa565b8355549261356f3085614011565b600a546001600160a01b039461358791861690614011565b546135923082614011565b83600a541690614011565b54906112703083614011565b6010545f52601885526135e7825f2060128752856007855f205415926135d3848760018401614078565b6135e1848960048401614078565b01614078565b6135f13082614011565b6135fb3382614011565b6136053084614011565b61360f3384614011565b6136193085614011565b6136233385614011565b6010545f5260128552815f206136398154612b1e565b9055335f52600e855242825f205560105494825195865285015283015260608201527f72907afc56943f50662e613bbc1f2a9416e6be04dde6126dabd4c59e82fe14b060803392a2565b5061368c614246565b6136963082614011565b61353a565b506136a4614246565b6136ae3082614011565b613527565b506136bc614246565b6136c63082614011565b613517565b6136d481612fff565b15915f92613cd657815f526017602052600360405f2001548015613cc457815180613c0357505f805160206142bc83398151915254604051631391547f60e01b8152600481019290925260326024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156130f4575f91613bd1575b50925b6137613085614011565b60405191604083018381106001600160401b03821117612891576040526001948584526020368186013761379484612fac565b526137a2611f4c82866131dc565b927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00549560018060a01b035f805160206142dc833981519152541691823b156102c957604051637d6e912360e11b81525f816024956020600483015281838161380d8a820189613244565b03925af180156130f457613bbe575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b15613bba57856040518092633263b83b60e01b82528b600483015260608783015281838161387b6064820189613244565b63124bd04b60e01b604483015203925af18015613baf57908691613b97575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01806020526040862054613b8557888652602052604085208151916001600160401b038311613b7257600160401b8311613b72578154838355808410613b4a575b506020019086526020862083875b848110613b375750505050506139437f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054612b1e565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf005560405160a081018181106001600160401b03821117613b2457906003916040528781526139f26020820188815260408301908882526060840190898252608085019889528c8a52601360205260408a209451855551868501556139db6002850192511515839060ff801983541691151516179055565b51815461ff00191690151560081b61ff0016179055565b0192518051926001600160401b038411613b125750613a1583610c00865461283e565b602091601f8411600114613a8957508285936040979593613a6c937fbcf5a976ad5099b80a136d75eb362431099ce72445dd2c1a9305e658986b570b9a98926110735750508160011b915f199060031b1c19161790565b90555b338152600f602052834291205582519182526020820152a2565b9291601f198316918587526020872092875b818110613afc5750917fbcf5a976ad5099b80a136d75eb362431099ce72445dd2c1a9305e658986b570b99979593918560409a98969410613ae4575b505050811b019055613a6f565b01515f1960f88460031b161c191690555f8080613ad7565b8284015185559386019360209384019301613a9b565b634e487b7160e01b8652604160045285fd5b83634e487b7160e01b5f5260416004525ffd5b602084519401938184015501849061390d565b828852848460208a2092830192015b828110613b675750506138ff565b5f8155018590613b59565b634e487b7160e01b875260416004528487fd5b604051633f06d22b60e01b8152600490fd5b613ba0906128db565b613bab57845f61389a565b8480fd5b6040513d88823e3d90fd5b8580fd5b613bc99195506128db565b5f935f61381c565b90506020813d602011613bfb575b81613bec60209383612909565b810103126102c957515f613754565b3d9150613bdf565b602060405182613c178294838589016129cc565b8101601a815203019020548015613cb2575b602090606460018060a01b035f805160206142bc8339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af19081156130f4575f91613c80575b5092613757565b90506020813d602011613caa575b81613c9b60209383612909565b810103126102c957515f613c79565b3d9150613c8e565b506020613cbd614246565b9050613c29565b6040516321c4e35760e21b8152600490fd5b6040516333b094a160e01b8152600490fd5b91908215613d90575b602063ffffffff91606460018060a01b03955f875f805160206142bc83398151915254166040519687958694635a53accb60e01b86526004860152166024840152600160f81b60448401525af180156130f4575f90613d5c575b61296a915080936112703083614011565b506020813d602011613d88575b81613d7660209383612909565b810103126102c95761296a9051613d4b565b3d9150613d69565b915063ffffffff6020613da1614246565b93915050613cf1565b8015929190808285613ff0575b15613fdd575b5f9060018060a01b035f805160206142bc833981519152918183541660409687519663022f65e760e31b8852600488015260248701528460448701528560648160209788945af1948515613f48575f95613fae575b5084978515613f99575b908491613f8b575b606483855416995f89519b8c948593637210768160e01b8552600485015260248401528160448401525af1908115613f81575f91613f52575b5f9750838184541660448851809b8193639cd07acb60e01b835263ffffffff6004840152600460248401525af1928315613f485784959697985f94613f0e575b50606492915f91541688519788958694637702dcff60e01b86526004860152602485015260448401525af1928315613f0557505f92613edb57505090565b90809250813d8311613efe575b613ef28183612909565b810103126102c9575190565b503d613ee8565b513d5f823e3d90fd5b8581969295509392933d8311613f41575b613f298183612909565b810103126102c9579251849390929091906064613e9d565b503d613f1f565b86513d5f823e3d90fd5b90508287813d8311613f7a575b613f698183612909565b810103126102c9575f965190613e5d565b503d613f5f565b85513d5f823e3d90fd5b50613f94614246565b613e24565b97508390613fa5614246565b98909150613e1c565b9094508381813d8311613fd6575b613fc68183612909565b810103126102c95751935f613e12565b503d613fbc565b91505f613fe8614246565b929050613dbd565b9150613ffa614246565b91613db7565b906004811015612f425760051b0190565b5f805160206142dc833981519152546001600160a01b031691823b156102c957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156130f45761406f5750565b61296a906128db565b909180156141875782905b60018301918255156140bf57600261296a93925b0191825554906140a73083614011565b600a546001600160a01b039261359d91841690614011565b600282015492808415614177575b15614165575b602090606460018060a01b035f805160206142bc8339815191525416955f6040519788948593630d8c635960e21b8552600485015260248401528160448401525af19283156130f4575f93614130575b50600261296a9392614097565b92506020833d60201161415d575b8161414b60209383612909565b810103126102c9579151916002614123565b3d915061413e565b506020614170614246565b90506140d3565b9350614181614246565b936140cd565b6001820154838115614236575b8415614224575b602090606460018060a01b035f805160206142bc8339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af19081156130f4575f916141f2575b5090614083565b90506020813d60201161421c575b8161420d60209383612909565b810103126102c957515f6141eb565b3d9150614200565b50602061422f614246565b905061419b565b9050614240614246565b90614194565b5f805160206142bc83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156130f4575f91614298575090565b90506020813d6020116142b3575b81613ef260209383612909565b3d91506142a656fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type DavAccessNFT_FHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: DavAccessNFT_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class DavAccessNFT_FHE__factory extends ContractFactory {
+  constructor(...args: DavAccessNFT_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      DavAccessNFT_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): DavAccessNFT_FHE__factory {
+    return super.connect(runner) as DavAccessNFT_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): DavAccessNFT_FHEInterface {
+    return new Interface(_abi) as DavAccessNFT_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): DavAccessNFT_FHE {
+    return new Contract(address, _abi, runner) as unknown as DavAccessNFT_FHE;
+  }
+}
@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { DavAccessNFT_FHE__factory } from "./DavAccessNFT_FHE__factory";
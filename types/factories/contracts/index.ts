@@ -1,5 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { AudioGuideFHE__factory } from "./AudioGuideFHE__factory";
+export * as davAccessNftFheSol from "./davAccessNFT_FHE.sol";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";